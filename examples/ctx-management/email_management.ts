@@ -34,7 +34,7 @@ import { fetchModels } from "tokenlens";
 import { z } from "zod";
 import type { FileAdapter } from "../../src/sandbox-code-generator/file-adapter.js";
 import { SandboxManager } from "../../src/sandbox-code-generator/sandbox-manager.js";
-import { compact } from "../../src/tool-results-compactor/index.js";
+import { compactWithReport } from "../../src/tool-results-compactor/index.js";
 
 // Environment types
 type Environment = "local" | "e2b" | "vercel";
@@ -228,7 +228,7 @@ function createTools(sandboxManager: SandboxManager) {
   return {
     // Include compaction tools for reading compacted files
     // These tools default to the workspace root, so you can use paths like:
-    // sandbox_cat({ file: "compact/session-id/tool-results/fetchEmails.json" })
+    // sandbox_cat({ file: "compact/session-id/tool-results/fetchEmails-call_abc123.json" })
     ...sandboxManager.getCompactionTools(),
 
     // Email-specific tool
@@ -304,6 +304,7 @@ interface ConversationStats {
   estimatedTokensAfter: number;
   tokensSaved: number;
   percentSaved: string;
+  compactedResults: number;
 }
 
 async function main() {
@@ -355,6 +356,7 @@ async function main() {
     estimatedTokensAfter: 0,
     tokensSaved: 0,
     percentSaved: "0.0",
+    compactedResults: 0,
   };
 
   // Simple console-based UI
@@ -391,6 +393,7 @@ async function main() {
     console.log(
       `    Saved: ${stats.tokensSaved} tokens (${stats.percentSaved}% reduction)`
     );
+    console.log(`    Compacted tool results: ${stats.compactedResults}`);
     console.log("-".repeat(80) + "\n");
   }
 
@@ -506,14 +509,17 @@ async function main() {
       stats.estimatedTokensBefore = tokensBefore;
 
       // Compact the ENTIRE conversation
-      const compacted = await compact(messages, {
-        strategy: strategy as
-          | "write-tool-results-to-file"
-          | "drop-tool-results",
-        storage: fileAdapter,
-        boundary: "all",
-        sessionId: envConfig.sessionId,
-      });
+      const { messages: compacted, report } = await compactWithReport(
+        messages,
+        {
+          strategy: strategy as
+            | "write-tool-results-to-file"
+            | "drop-tool-results",
+          storage: fileAdapter,
+          boundary: "all",
+          sessionId: envConfig.sessionId,
+        }
+      );
 
       const tokensAfter = estimateTokensInMessages(compacted);
       const tokensSaved = tokensBefore - tokensAfter;
@@ -525,6 +531,7 @@ async function main() {
       stats.estimatedTokensAfter = tokensAfter;
       stats.tokensSaved = tokensSaved;
       stats.percentSaved = percentSaved;
+      stats.compactedResults += report.totals.compactedParts;
 
       // Update messages with compacted version
       messages = compacted;
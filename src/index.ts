@@ -1,10 +1,48 @@
 // Public API barrel for npm package consumers
 
 // Tool Results Compactor
-export { compact } from "./tool-results-compactor/index.js";
+export {
+  applyRetention,
+  compact,
+  compactWithReport,
+  composeCompactionStrategies,
+  createCompactingPrepareStep,
+  decompact,
+  getCompactionStrategy,
+  grepObject,
+  listSessions,
+  listSessionToolResults,
+  listStoredToolResults,
+  purgeSession,
+  registerCompactionStrategy,
+  unregisterCompactionStrategy,
+} from "./tool-results-compactor/index.js";
 export type {
   Boundary,
+  CompactionReport,
+  CompactionReportEntry,
+  CompactionStrategy,
+  CompactionStrategyContext,
+  CompactionThreshold,
+  CompactionTotals,
   CompactOptions,
+  DecompactOptions,
+  ErrorPolicy,
+  FileReaderHint,
+  GrepResultLine,
+  PersistedFormat,
+  PersistedToolResult,
+  PreviewOptions,
+  RetainedSessionRemoval,
+  RetentionOptions,
+  RetentionReport,
+  StoredToolResult,
+  StoredToolResultsOptions,
+  ToolPolicy,
+  ToolPolicyAction,
+  ToolPolicyContext,
+  ToolResultKeyContext,
+  ToolResultKeyStrategy,
 } from "./tool-results-compactor/index.js";
 
 // Sandbox Code Generator
@@ -13,24 +51,36 @@ export {
   createLocalSandboxCodeMode,
   createVercelSandboxCodeMode,
   E2BSandboxProvider,
+  InMemoryFileAdapter,
   LocalSandboxProvider,
+  S3FileAdapter,
   SANDBOX_SYSTEM_PROMPT,
   SandboxManager,
+  SqliteFileAdapter,
   VercelSandboxProvider,
 } from "./sandbox-code-generator/index";
 export type {
   E2BSandboxOptions,
   FileAdapter,
   FileReadParams,
+  FileStat,
+  FileWriteMetadata,
   FileWriteParams,
+  FileWriteStreamParams,
   FileWriteResult,
+  InMemoryFile,
+  InMemoryFileAdapterOptions,
   LocalFileAdapterOptions,
   LocalSandboxOptions,
   MCPServerConfig,
+  S3FileAdapterOptions,
   SandboxCodeModeOptions,
   SandboxCodeModeResult,
   SandboxProvider,
   SandboxProviderOptions,
+  SqliteFileAdapterOptions,
+  SqliteFileQuery,
+  SqliteFileRecord,
   ToolCodeGenerationResult,
   VercelSandboxOptions,
 } from "./sandbox-code-generator/index";
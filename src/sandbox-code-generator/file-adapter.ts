@@ -5,13 +5,34 @@ import {
   writeFile as fsWriteFile,
 } from "node:fs/promises";
 import path from "node:path";
+import { Readable, Writable } from "node:stream";
 import { fileURLToPath } from "node:url";
 import type { SandboxProvider } from "./sandbox-provider.js";
 
+/**
+ * Metadata of the persisted tool result a file holds. Compaction passes it with each write so
+ * adapters can index files without parsing them. The local, in-memory and S3 adapters return
+ * it from stat() (the SQLite adapter indexes it for query()), which is how files without
+ * embedded metadata, such as media and csv/markdown/text outputs, are attributed to a session.
+ */
+export interface FileWriteMetadata {
+  sessionId?: string;
+  toolName?: string;
+  toolCallId?: string;
+  timestamp?: string;
+}
+
 export interface FileWriteParams {
   key: string;
   body: string | Uint8Array;
   contentType?: string;
+  metadata?: FileWriteMetadata;
+}
+
+export interface FileWriteStreamParams {
+  key: string;
+  contentType?: string;
+  metadata?: FileWriteMetadata;
 }
 
 export interface FileReadParams {
@@ -23,12 +44,41 @@ export interface FileWriteResult {
   url?: string;
 }
 
+export interface FileStat {
+  key: string;
+  size: number; // bytes
+  lastModified?: Date;
+  contentType?: string;
+  metadata?: FileWriteMetadata; // as passed on write, for adapters that store it
+}
+
 export interface FileAdapter {
   write(params: FileWriteParams): Promise<FileWriteResult>;
   readText?(params: FileReadParams): Promise<string>;
   openReadStream?(
     params: FileReadParams
   ): Promise<NodeJS.ReadableStream | ReadStream>;
+  /**
+   * Open a stream to write a file incrementally, for outputs too large to build in memory.
+   * The file is complete once the stream has finished.
+   */
+  openWriteStream?(
+    params: FileWriteStreamParams
+  ): Promise<NodeJS.WritableStream>;
+  /**
+   * List the keys starting with a prefix (all keys if omitted), in sorted order.
+   */
+  list?(prefix?: string): Promise<string[]>;
+  /**
+   * Size, modification time and stored write metadata of a file, or undefined if it doesn't
+   * exist.
+   */
+  stat?(key: string): Promise<FileStat | undefined>;
+  exists?(key: string): Promise<boolean>;
+  /**
+   * Delete a file. Resolves to false if there was nothing to delete.
+   */
+  delete?(key: string): Promise<boolean>;
   resolveKey(name: string): string;
   toString(): string;
 }
@@ -42,6 +92,40 @@ export interface LocalFileAdapterOptions {
   sessionId?: string; // optional session ID for organizing tool results
 }
 
+// Write metadata of a local file is kept in a hidden sidecar next to it: .{name}.meta.json
+const LOCAL_METADATA_SIDECAR = /^\..+\.meta\.json$/;
+
+function localMetadataPath(fullPath: string): string {
+  return path.join(
+    path.dirname(fullPath),
+    `.${path.basename(fullPath)}.meta.json`
+  );
+}
+
+async function writeLocalMetadata(
+  fullPath: string,
+  metadata: FileWriteMetadata | undefined
+): Promise<void> {
+  const sidecar = localMetadataPath(fullPath);
+  if (metadata) {
+    await fsWriteFile(sidecar, JSON.stringify(metadata), "utf8");
+  } else {
+    // A rewrite without metadata mustn't keep the previous file's
+    await fs.promises.rm(sidecar, { force: true });
+  }
+}
+
+async function readLocalMetadata(
+  fullPath: string
+): Promise<FileWriteMetadata | undefined> {
+  try {
+    return JSON.parse(await fsReadFile(localMetadataPath(fullPath), "utf8"));
+  } catch (err: any) {
+    if (err?.code === "ENOENT") return undefined;
+    throw err;
+  }
+}
+
 /**
  * File adapter that writes to the local filesystem
  */
@@ -74,10 +158,18 @@ export class LocalFileAdapter implements FileAdapter {
     const body =
       typeof params.body === "string" ? params.body : Buffer.from(params.body);
     await fsWriteFile(fullPath, body, "utf8");
+    await writeLocalMetadata(fullPath, params.metadata);
     const url = new URL(`file://${fullPath}`);
     return { key: params.key, url: url.toString() };
   }
 
+  async openWriteStream(params: FileWriteStreamParams) {
+    const fullPath = path.resolve(this.baseDir, params.key);
+    await fs.promises.mkdir(path.dirname(fullPath), { recursive: true });
+    await writeLocalMetadata(fullPath, params.metadata);
+    return fs.createWriteStream(fullPath, "utf8");
+  }
+
   async readText(params: FileReadParams): Promise<string> {
     const fullPath = path.resolve(this.baseDir, params.key);
     return await fsReadFile(fullPath, "utf8");
@@ -88,6 +180,72 @@ export class LocalFileAdapter implements FileAdapter {
     return fs.createReadStream(fullPath);
   }
 
+  async list(prefix = ""): Promise<string[]> {
+    // Walk the deepest directory the prefix names, then filter by the full prefix
+    const dir = prefix.slice(0, prefix.lastIndexOf("/") + 1);
+    const keys: string[] = [];
+    const walk = async (relativeDir: string) => {
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(
+          path.resolve(this.baseDir, relativeDir),
+          { withFileTypes: true }
+        );
+      } catch (err: any) {
+        if (err?.code === "ENOENT" || err?.code === "ENOTDIR") return;
+        throw err;
+      }
+      for (const entry of entries) {
+        const key = `${relativeDir}${entry.name}`;
+        if (entry.isDirectory()) {
+          if (key.startsWith(prefix)) await walk(`${key}/`);
+        } else if (
+          entry.isFile() &&
+          key.startsWith(prefix) &&
+          !LOCAL_METADATA_SIDECAR.test(entry.name)
+        ) {
+          keys.push(key);
+        }
+      }
+    };
+    await walk(dir);
+    return keys.sort();
+  }
+
+  async stat(key: string): Promise<FileStat | undefined> {
+    const fullPath = path.resolve(this.baseDir, key);
+    try {
+      const stats = await fs.promises.stat(fullPath);
+      if (!stats.isFile()) return undefined;
+      const metadata = await readLocalMetadata(fullPath);
+      return {
+        key,
+        size: stats.size,
+        lastModified: stats.mtime,
+        ...(metadata ? { metadata } : {}),
+      };
+    } catch (err: any) {
+      if (err?.code === "ENOENT") return undefined;
+      throw err;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.stat(key)) !== undefined;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const fullPath = path.resolve(this.baseDir, key);
+    try {
+      await fs.promises.unlink(fullPath);
+      await fs.promises.rm(localMetadataPath(fullPath), { force: true });
+      return true;
+    } catch (err: any) {
+      if (err?.code === "ENOENT") return false;
+      throw err;
+    }
+  }
+
   toString(): string {
     // Return just the baseDir - prefix and sessionId are already part of resolved keys
     return `file://${this.baseDir}`;
@@ -104,6 +262,161 @@ export function fileUriToOptions(uri: string): LocalFileAdapterOptions {
   return { baseDir };
 }
 
+/**
+ * A file held by an in-memory file adapter
+ */
+export interface InMemoryFile {
+  body: Buffer;
+  contentType?: string;
+  metadata?: FileWriteMetadata;
+  lastModified: Date;
+}
+
+/**
+ * Options for creating an in-memory file adapter
+ */
+export interface InMemoryFileAdapterOptions {
+  name?: string; // optional store name; adapters with the same name share files
+  prefix?: string; // optional prefix for keys (defaults to none)
+  sessionId?: string; // optional session ID for organizing tool results
+}
+
+// Named stores shared by every adapter (and memory:// URI) with the same name
+const namedMemoryStores = new Map<string, Map<string, InMemoryFile>>();
+
+/**
+ * File adapter that keeps files in process memory, for tests and for environments without a
+ * writable filesystem (e.g. serverless functions). Files live as long as the process.
+ */
+export class InMemoryFileAdapter implements FileAdapter {
+  private name: string | undefined;
+  private prefix: string;
+  private sessionId: string | undefined;
+  private files: Map<string, InMemoryFile>;
+
+  constructor(options: InMemoryFileAdapterOptions = {}) {
+    this.name = options.name;
+    this.prefix = options.prefix ?? "";
+    this.sessionId = options.sessionId;
+    if (options.name === undefined) {
+      this.files = new Map();
+    } else {
+      let store = namedMemoryStores.get(options.name);
+      if (!store) {
+        store = new Map();
+        namedMemoryStores.set(options.name, store);
+      }
+      this.files = store;
+    }
+  }
+
+  resolveKey(name: string): string {
+    const safe = name.replace(/\\/g, "/").replace(/\.+\//g, "");
+
+    // Build path with session support: [prefix/][sessionId/tool-results/]name
+    const parts: string[] = [];
+    if (this.prefix) parts.push(this.prefix.replace(/\/$/, ""));
+    if (this.sessionId) parts.push(this.sessionId, "tool-results");
+    parts.push(safe);
+
+    return parts.join("/");
+  }
+
+  async write(params: FileWriteParams): Promise<FileWriteResult> {
+    const body =
+      typeof params.body === "string"
+        ? Buffer.from(params.body, "utf8")
+        : Buffer.from(params.body);
+    this.files.set(params.key, {
+      body,
+      contentType: params.contentType,
+      metadata: params.metadata,
+      lastModified: new Date(),
+    });
+    return { key: params.key, url: `${this.toString()}/${params.key}` };
+  }
+
+  async openWriteStream(params: FileWriteStreamParams) {
+    const chunks: Buffer[] = [];
+    return new Writable({
+      write: (chunk, _encoding, callback) => {
+        chunks.push(Buffer.from(chunk));
+        callback();
+      },
+      final: (callback) => {
+        this.files.set(params.key, {
+          body: Buffer.concat(chunks),
+          contentType: params.contentType,
+          metadata: params.metadata,
+          lastModified: new Date(),
+        });
+        callback();
+      },
+    });
+  }
+
+  async readText(params: FileReadParams): Promise<string> {
+    return this.getFile(params.key).body.toString("utf8");
+  }
+
+  async openReadStream(params: FileReadParams) {
+    return Readable.from([this.getFile(params.key).body]);
+  }
+
+  async list(prefix = ""): Promise<string[]> {
+    return [...this.files.keys()]
+      .filter((key) => key.startsWith(prefix))
+      .sort();
+  }
+
+  async stat(key: string): Promise<FileStat | undefined> {
+    const file = this.files.get(key);
+    if (!file) return undefined;
+    return {
+      key,
+      size: file.body.length,
+      lastModified: file.lastModified,
+      contentType: file.contentType,
+      ...(file.metadata ? { metadata: file.metadata } : {}),
+    };
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.files.has(key);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.files.delete(key);
+  }
+
+  toString(): string {
+    // Return just the store name - prefix and sessionId are already part of resolved keys
+    return `memory://${this.name ?? ""}`;
+  }
+
+  private getFile(key: string): InMemoryFile {
+    const file = this.files.get(key);
+    if (!file) {
+      throw new Error(`File not found in memory storage: ${key}`);
+    }
+    return file;
+  }
+}
+
+export function memoryUriToOptions(uri: string): InMemoryFileAdapterOptions {
+  // Expect memory://name[/prefix]; memory:// uses the default store. Parsed by hand so the
+  // case-sensitive store name is taken exactly as written, not as URL normalizes hosts.
+  const match = /^memory:\/\/([^/?#]*)([^?#]*)/.exec(uri);
+  if (!match) {
+    throw new Error(`Invalid memory URI: ${uri}`);
+  }
+  const prefix = decodeURIComponent(match[2]).replace(/^\/+|\/+$/g, "");
+  return {
+    name: decodeURIComponent(match[1]),
+    ...(prefix ? { prefix } : {}),
+  };
+}
+
 /**
  * Options for creating a sandbox file adapter
  */
@@ -192,6 +505,76 @@ export class SandboxFileAdapter implements FileAdapter {
     return Readable.from([content]);
   }
 
+  async list(prefix = ""): Promise<string[]> {
+    // Find the files under the deepest directory the prefix names, then filter by the full prefix
+    const dir = prefix.slice(0, prefix.lastIndexOf("/") + 1);
+    const result = await this.sandboxProvider.runCommand({
+      cmd: "find",
+      args: [`${this.workspacePath}/${dir}`, "-type", "f"],
+    });
+
+    if (result.exitCode !== 0) {
+      const stderr = await result.stderr();
+      if (stderr.includes("No such file")) return [];
+      throw new Error(`Failed to list files under ${dir || "/"}: ${stderr}`);
+    }
+
+    const root = `${this.workspacePath}/`;
+    return (await result.stdout())
+      .split("\n")
+      .filter((line) => line.startsWith(root))
+      .map((line) => line.slice(root.length).replace(/^\/+/, ""))
+      .filter((key) => key.startsWith(prefix))
+      .sort();
+  }
+
+  async stat(key: string): Promise<FileStat | undefined> {
+    const fullPath = `${this.workspacePath}/${key}`;
+    if (!(await this.exists(key))) return undefined;
+
+    // Size in bytes and modification time in seconds since the epoch
+    const result = await this.sandboxProvider.runCommand({
+      cmd: "stat",
+      args: ["-c", "%s:%Y", fullPath],
+    });
+
+    if (result.exitCode !== 0) {
+      const stderr = await result.stderr();
+      throw new Error(`Failed to stat file ${fullPath}: ${stderr}`);
+    }
+
+    const [size, mtime] = (await result.stdout()).trim().split(":");
+    return {
+      key,
+      size: Number(size),
+      lastModified: new Date(Number(mtime) * 1000),
+    };
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const result = await this.sandboxProvider.runCommand({
+      cmd: "test",
+      args: ["-f", `${this.workspacePath}/${key}`],
+    });
+    return result.exitCode === 0;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const fullPath = `${this.workspacePath}/${key}`;
+    if (!(await this.exists(key))) return false;
+
+    const result = await this.sandboxProvider.runCommand({
+      cmd: "rm",
+      args: ["-f", fullPath],
+    });
+
+    if (result.exitCode !== 0) {
+      const stderr = await result.stderr();
+      throw new Error(`Failed to delete file ${fullPath}: ${stderr}`);
+    }
+    return true;
+  }
+
   toString(): string {
     // Return just the sandbox workspace path - prefix and sessionId are already part of resolved keys
     return `sandbox://${this.sandboxProvider.getId()}`;
@@ -5,10 +5,16 @@ export {
   type E2BSandboxOptions,
 } from "./e2b-sandbox-provider.js";
 export {
+  InMemoryFileAdapter,
   type FileAdapter,
   type FileReadParams,
+  type FileStat,
+  type FileWriteMetadata,
   type FileWriteParams,
+  type FileWriteStreamParams,
   type FileWriteResult,
+  type InMemoryFile,
+  type InMemoryFileAdapterOptions,
   type LocalFileAdapterOptions,
 } from "./file-adapter.js";
 export {
@@ -16,11 +22,18 @@ export {
   type LocalSandboxOptions,
 } from "./local-sandbox-provider.js";
 export { SANDBOX_SYSTEM_PROMPT } from "./prompts.js";
+export { S3FileAdapter, type S3FileAdapterOptions } from "./s3-file-adapter.js";
 export { SandboxManager } from "./sandbox-manager.js";
 export type {
   SandboxProvider,
   SandboxProviderOptions,
 } from "./sandbox-provider.js";
+export {
+  SqliteFileAdapter,
+  type SqliteFileAdapterOptions,
+  type SqliteFileQuery,
+  type SqliteFileRecord,
+} from "./sqlite-file-adapter.js";
 export {
   createE2BSandboxCodeMode,
   createLocalSandboxCodeMode,
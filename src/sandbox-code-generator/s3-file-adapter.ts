@@ -0,0 +1,251 @@
+// S3-compatible object storage file adapter
+
+import type { S3Client, S3ClientConfig } from "@aws-sdk/client-s3";
+import type {
+  FileAdapter,
+  FileReadParams,
+  FileStat,
+  FileWriteMetadata,
+  FileWriteParams,
+  FileWriteResult,
+} from "./file-adapter.js";
+
+function isNotFound(err: any): boolean {
+  return err?.name === "NotFound" || err?.$metadata?.httpStatusCode === 404;
+}
+
+// Write metadata travels as x-amz-meta-* headers: lowercase names, URI-encoded values
+const S3_METADATA_NAMES: Record<keyof FileWriteMetadata, string> = {
+  sessionId: "session-id",
+  toolName: "tool-name",
+  toolCallId: "tool-call-id",
+  timestamp: "timestamp",
+};
+
+function toS3Metadata(
+  metadata: FileWriteMetadata | undefined
+): Record<string, string> | undefined {
+  if (!metadata) return undefined;
+  const entries = Object.entries(S3_METADATA_NAMES).flatMap(([field, name]) => {
+    const value = metadata[field as keyof FileWriteMetadata];
+    return value === undefined ? [] : [[name, encodeURIComponent(value)]];
+  });
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+function fromS3Metadata(
+  metadata: Record<string, string> | undefined
+): FileWriteMetadata | undefined {
+  const entries = Object.entries(S3_METADATA_NAMES).flatMap(([field, name]) => {
+    const value = metadata?.[name];
+    return value === undefined ? [] : [[field, decodeURIComponent(value)]];
+  });
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+/**
+ * Options for creating an S3 file adapter
+ */
+export interface S3FileAdapterOptions {
+  bucket: string;
+  prefix?: string; // optional key prefix inside the bucket (defaults to none)
+  sessionId?: string; // optional session ID for organizing tool results
+  region?: string; // defaults to AWS_REGION, or "us-east-1"
+  endpoint?: string; // S3-compatible endpoint, e.g. http://localhost:9000 for MinIO
+  forcePathStyle?: boolean; // path-style URLs; defaults to true when endpoint is set
+  credentials?: S3ClientConfig["credentials"]; // defaults to the AWS credential chain
+  client?: S3Client; // preconfigured client; region/endpoint/credentials are then ignored
+  /**
+   * Lifetime in seconds of the presigned GET URL returned as FileWriteResult.url
+   * (default 3600). Set to false to return the s3:// URI instead.
+   */
+  presignExpiresIn?: number | false;
+}
+
+/**
+ * File adapter that writes to S3 or any S3-compatible object storage (MinIO, R2, ...).
+ * Requires the optional @aws-sdk/client-s3 and @aws-sdk/s3-request-presigner packages.
+ */
+export class S3FileAdapter implements FileAdapter {
+  private bucket: string;
+  private prefix: string;
+  private sessionId: string | undefined;
+  private presignExpiresIn: number | false;
+  private options: S3FileAdapterOptions;
+  private client: S3Client | undefined;
+
+  constructor(options: S3FileAdapterOptions) {
+    if (!options.bucket) {
+      throw new Error("S3FileAdapter requires a bucket.");
+    }
+    this.bucket = options.bucket;
+    this.prefix = options.prefix ?? "";
+    this.sessionId = options.sessionId;
+    this.presignExpiresIn = options.presignExpiresIn ?? 3600;
+    this.options = options;
+    this.client = options.client;
+  }
+
+  resolveKey(name: string): string {
+    const safe = name.replace(/\\/g, "/").replace(/\.+\//g, "");
+
+    // Build path with session support: [prefix/][sessionId/tool-results/]name
+    const parts: string[] = [];
+    if (this.prefix) parts.push(this.prefix.replace(/\/$/, ""));
+    if (this.sessionId) parts.push(this.sessionId, "tool-results");
+    parts.push(safe);
+
+    return parts.join("/");
+  }
+
+  async write(params: FileWriteParams): Promise<FileWriteResult> {
+    const { PutObjectCommand } = await import("@aws-sdk/client-s3");
+    const client = await this.getClient();
+    await client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: params.key,
+        Body: params.body,
+        ContentType: params.contentType,
+        Metadata: toS3Metadata(params.metadata),
+      })
+    );
+    return { key: params.key, url: await this.getUrl(params.key) };
+  }
+
+  async readText(params: FileReadParams): Promise<string> {
+    const body = await this.getObjectBody(params.key);
+    return await body.transformToString("utf8");
+  }
+
+  async openReadStream(params: FileReadParams) {
+    // In Node.js the SDK returns the object body as a Readable stream
+    const body = await this.getObjectBody(params.key);
+    return body as unknown as NodeJS.ReadableStream;
+  }
+
+  async list(prefix = ""): Promise<string[]> {
+    const { ListObjectsV2Command } = await import("@aws-sdk/client-s3");
+    const client = await this.getClient();
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const page = await client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: prefix || undefined,
+          ContinuationToken: continuationToken,
+        })
+      );
+      for (const object of page.Contents ?? []) {
+        if (object.Key) keys.push(object.Key);
+      }
+      continuationToken = page.IsTruncated
+        ? page.NextContinuationToken
+        : undefined;
+    } while (continuationToken);
+    return keys.sort();
+  }
+
+  async stat(key: string): Promise<FileStat | undefined> {
+    const { HeadObjectCommand } = await import("@aws-sdk/client-s3");
+    const client = await this.getClient();
+    try {
+      const head = await client.send(
+        new HeadObjectCommand({ Bucket: this.bucket, Key: key })
+      );
+      const metadata = fromS3Metadata(head.Metadata);
+      return {
+        key,
+        size: head.ContentLength ?? 0,
+        lastModified: head.LastModified,
+        contentType: head.ContentType,
+        ...(metadata ? { metadata } : {}),
+      };
+    } catch (err) {
+      if (isNotFound(err)) return undefined;
+      throw err;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.stat(key)) !== undefined;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    // S3 deletes succeed for missing keys, so check first to report whether anything was removed
+    if (!(await this.exists(key))) return false;
+    const { DeleteObjectCommand } = await import("@aws-sdk/client-s3");
+    const client = await this.getClient();
+    await client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: key })
+    );
+    return true;
+  }
+
+  toString(): string {
+    // Return just the bucket - prefix and sessionId are already part of resolved keys
+    return `s3://${this.bucket}`;
+  }
+
+  private async getObjectBody(key: string) {
+    const { GetObjectCommand } = await import("@aws-sdk/client-s3");
+    const client = await this.getClient();
+    const result = await client.send(
+      new GetObjectCommand({ Bucket: this.bucket, Key: key })
+    );
+    if (!result.Body) {
+      throw new Error(`Empty response body for s3://${this.bucket}/${key}`);
+    }
+    return result.Body;
+  }
+
+  private async getUrl(key: string): Promise<string> {
+    if (this.presignExpiresIn === false) {
+      return `s3://${this.bucket}/${key}`;
+    }
+    const { GetObjectCommand } = await import("@aws-sdk/client-s3");
+    const { getSignedUrl } = await import("@aws-sdk/s3-request-presigner");
+    return await getSignedUrl(
+      await this.getClient(),
+      new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+      { expiresIn: this.presignExpiresIn }
+    );
+  }
+
+  private async getClient(): Promise<S3Client> {
+    if (!this.client) {
+      // Loaded on first use so the SDK is only needed when S3 storage is used
+      const { S3Client } = await import("@aws-sdk/client-s3");
+      const { region, endpoint, credentials } = this.options;
+      this.client = new S3Client({
+        region: region ?? process.env.AWS_REGION ?? "us-east-1",
+        endpoint,
+        forcePathStyle: this.options.forcePathStyle ?? endpoint !== undefined,
+        credentials,
+      });
+    }
+    return this.client;
+  }
+}
+
+export function s3UriToOptions(uri: string): S3FileAdapterOptions {
+  // Expect s3://bucket[/prefix][?endpoint=...&region=...&forcePathStyle=true]
+  const url = new URL(uri);
+  if (url.protocol !== "s3:" || !url.hostname) {
+    throw new Error(`Invalid S3 URI: ${uri}`);
+  }
+  const prefix = decodeURIComponent(url.pathname).replace(/^\/+|\/+$/g, "");
+  const endpoint = url.searchParams.get("endpoint") ?? undefined;
+  const region = url.searchParams.get("region") ?? undefined;
+  const forcePathStyle = url.searchParams.get("forcePathStyle");
+  return {
+    bucket: url.hostname,
+    ...(prefix ? { prefix } : {}),
+    ...(endpoint ? { endpoint } : {}),
+    ...(region ? { region } : {}),
+    ...(forcePathStyle !== null
+      ? { forcePathStyle: forcePathStyle === "true" }
+      : {}),
+  };
+}
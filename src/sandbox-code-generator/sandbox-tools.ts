@@ -4,6 +4,47 @@ import { tool } from "ai";
 import { z } from "zod";
 import type { SandboxProvider } from "./sandbox-provider.js";
 
+/**
+ * Strip the metadata wrapper from a compacted tool result file so the model reads just the
+ * output. This prevents the model from echoing large JSON structures.
+ *
+ * - JSON files: the "output" field of the { metadata, output } record
+ * - NDJSON files: the item lines after the metadata line
+ * - CSV, Markdown and text files hold only the output and are returned as-is
+ */
+export function unwrapPersistedToolResult(content: string): string {
+  if (!content.includes('"metadata"') || !content.includes('"toolName"')) {
+    return content;
+  }
+
+  const newline = content.indexOf("\n");
+  const firstLine = newline === -1 ? content : content.slice(0, newline);
+  try {
+    const head = JSON.parse(firstLine);
+    if (head?.metadata?.format === "ndjson") {
+      return newline === -1 ? "" : content.slice(newline + 1);
+    }
+  } catch (e) {
+    // Not NDJSON: the first line of a JSON document doesn't parse on its own
+  }
+
+  if (content.includes('"output"')) {
+    try {
+      const parsed = JSON.parse(content);
+      if (parsed.output) {
+        // Return the actual tool output, not the metadata wrapper
+        return typeof parsed.output === "string"
+          ? parsed.output
+          : JSON.stringify(parsed.output, null, 2);
+      }
+    } catch (e) {
+      // If parsing fails, return content as-is
+    }
+  }
+
+  return content;
+}
+
 /**
  * Create exploration tools for navigating the sandbox file system
  */
@@ -71,28 +112,7 @@ export function createExplorationTools(
         }
 
         const content = (await result.stdout()) || "Empty file";
-
-        // If this looks like a compacted tool result JSON, parse it and return just the output
-        // This prevents the model from echoing large JSON structures
-        if (
-          content.includes('"metadata"') &&
-          content.includes('"toolName"') &&
-          content.includes('"output"')
-        ) {
-          try {
-            const parsed = JSON.parse(content);
-            if (parsed.output) {
-              // Return the actual tool output, not the metadata wrapper
-              return typeof parsed.output === "string"
-                ? parsed.output
-                : JSON.stringify(parsed.output, null, 2);
-            }
-          } catch (e) {
-            // If parsing fails, return content as-is
-          }
-        }
-
-        return content;
+        return unwrapPersistedToolResult(content);
       },
     }),
 
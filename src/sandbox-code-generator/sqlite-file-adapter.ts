@@ -0,0 +1,408 @@
+// SQLite file adapter: persisted tool results as rows of a single database file
+
+import type BetterSqlite3 from "better-sqlite3";
+import fs from "node:fs";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { Readable, Writable } from "node:stream";
+import type {
+  FileAdapter,
+  FileReadParams,
+  FileStat,
+  FileWriteMetadata,
+  FileWriteParams,
+  FileWriteResult,
+  FileWriteStreamParams,
+} from "./file-adapter.js";
+
+/**
+ * Options for creating a SQLite file adapter
+ */
+export interface SqliteFileAdapterOptions {
+  filename: string; // database file path, or ":memory:"
+  table?: string; // table holding the files (defaults to "ctx_zip_files")
+  prefix?: string; // optional key prefix (defaults to none)
+  sessionId?: string; // optional session ID for organizing tool results
+  database?: BetterSqlite3.Database; // existing connection; filename is then only used in toString()
+}
+
+/**
+ * A stored file, with the metadata of the persisted tool result it holds (null for files
+ * written without metadata, such as media).
+ */
+export interface SqliteFileRecord {
+  key: string;
+  sessionId: string | null;
+  toolName: string | null;
+  toolCallId: string | null;
+  timestamp: string | null;
+  contentType: string | null;
+  bytes: number;
+  writtenAt: string;
+}
+
+/**
+ * Filter for SqliteFileAdapter.query(); omitted fields match any value.
+ */
+export interface SqliteFileQuery {
+  prefix?: string; // only keys starting with this prefix
+  sessionId?: string;
+  toolName?: string;
+  toolCallId?: string;
+}
+
+// Size of the pieces file bodies are stored in, so files are written and read incrementally
+const CHUNK_BYTES = 256 * 1024;
+
+/**
+ * File adapter that stores files as rows of a SQLite database, so long-running agents keep one
+ * file instead of thousands. Persisted tool results are indexed by session, tool name and
+ * toolCallId, from the metadata compaction passes with each write. Bodies are stored in chunks,
+ * so streamed writes and reads never hold a whole file. Requires the optional better-sqlite3
+ * package.
+ */
+export class SqliteFileAdapter implements FileAdapter {
+  private filename: string;
+  private table: string;
+  private prefix: string;
+  private sessionId: string | undefined;
+  private database: BetterSqlite3.Database | undefined;
+  private ownsDatabase: boolean;
+
+  constructor(options: SqliteFileAdapterOptions) {
+    const table = options.table ?? "ctx_zip_files";
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new Error(`Invalid SQLite table name: ${table}`);
+    }
+    this.filename = options.filename;
+    this.table = table;
+    this.prefix = options.prefix ?? "";
+    this.sessionId = options.sessionId;
+    this.database = options.database;
+    this.ownsDatabase = !options.database;
+    if (this.database) this.createTable(this.database);
+  }
+
+  resolveKey(name: string): string {
+    const safe = name.replace(/\\/g, "/").replace(/\.+\//g, "");
+
+    // Build path with session support: [prefix/][sessionId/tool-results/]name
+    const parts: string[] = [];
+    if (this.prefix) parts.push(this.prefix.replace(/\/$/, ""));
+    if (this.sessionId) parts.push(this.sessionId, "tool-results");
+    parts.push(safe);
+
+    return parts.join("/");
+  }
+
+  async write(params: FileWriteParams): Promise<FileWriteResult> {
+    const body =
+      typeof params.body === "string"
+        ? Buffer.from(params.body, "utf8")
+        : Buffer.from(params.body);
+    const database = await this.getDatabase();
+    const staging = this.stagingKey(params.key);
+    const insertChunk = this.insertChunkStatement(database);
+    database.transaction(() => {
+      for (let offset = 0; offset < body.length; offset += CHUNK_BYTES) {
+        insertChunk.run(
+          staging,
+          offset / CHUNK_BYTES,
+          body.subarray(offset, offset + CHUNK_BYTES)
+        );
+      }
+      this.commit(database, staging, params, body.length);
+    })();
+    return { key: params.key };
+  }
+
+  async openWriteStream(params: FileWriteStreamParams) {
+    // Chunks are staged under a temporary key and swapped in once the stream finishes, so
+    // readers never see a partial file
+    const database = await this.getDatabase();
+    const staging = this.stagingKey(params.key);
+    const insertChunk = this.insertChunkStatement(database);
+    let pending: Buffer[] = [];
+    let pendingBytes = 0;
+    let bytes = 0;
+    let seq = 0;
+    let committed = false;
+    const flush = () => {
+      if (pendingBytes === 0) return;
+      insertChunk.run(staging, seq++, Buffer.concat(pending));
+      bytes += pendingBytes;
+      pending = [];
+      pendingBytes = 0;
+    };
+    return new Writable({
+      write: (chunk, _encoding, callback) => {
+        try {
+          const buffer = Buffer.from(chunk);
+          pending.push(buffer);
+          pendingBytes += buffer.length;
+          if (pendingBytes >= CHUNK_BYTES) flush();
+          callback();
+        } catch (err) {
+          callback(err as Error);
+        }
+      },
+      final: (callback) => {
+        try {
+          flush();
+          this.commit(database, staging, params, bytes);
+          committed = true;
+          callback();
+        } catch (err) {
+          callback(err as Error);
+        }
+      },
+      destroy: (err, callback) => {
+        if (!committed) this.deleteChunks(database, staging);
+        callback(err);
+      },
+    });
+  }
+
+  async readText(params: FileReadParams): Promise<string> {
+    const database = await this.getDatabase();
+    const seqs = this.chunkSeqs(database, params.key);
+    const readChunk = this.readChunkStatement(database);
+    return Buffer.concat(
+      seqs.map((seq) => readChunk.get(params.key, seq)!.data)
+    ).toString("utf8");
+  }
+
+  async openReadStream(params: FileReadParams) {
+    const database = await this.getDatabase();
+    const seqs = this.chunkSeqs(database, params.key);
+    const readChunk = this.readChunkStatement(database);
+    // One chunk is fetched at a time, as the stream is consumed
+    return Readable.from(
+      (function* () {
+        for (const seq of seqs) {
+          const row = readChunk.get(params.key, seq);
+          if (row) yield row.data;
+        }
+      })()
+    );
+  }
+
+  /**
+   * List stored files matching a filter, ordered by key.
+   */
+  async query(filter: SqliteFileQuery = {}): Promise<SqliteFileRecord[]> {
+    const database = await this.getDatabase();
+    const conditions: string[] = [];
+    const values: (string | number)[] = [];
+    if (filter.prefix) {
+      conditions.push("substr(key, 1, ?) = ?");
+      values.push(filter.prefix.length, filter.prefix);
+    }
+    for (const [column, value] of [
+      ["session_id", filter.sessionId],
+      ["tool_name", filter.toolName],
+      ["tool_call_id", filter.toolCallId],
+    ] as const) {
+      if (value === undefined) continue;
+      conditions.push(`${column} = ?`);
+      values.push(value);
+    }
+    const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+    return database
+      .prepare(
+        `SELECT key, session_id AS sessionId, tool_name AS toolName,
+           tool_call_id AS toolCallId, timestamp, content_type AS contentType,
+           bytes, written_at AS writtenAt
+         FROM ${this.table} ${where} ORDER BY key`
+      )
+      .all(...values) as SqliteFileRecord[];
+  }
+
+  async list(prefix = ""): Promise<string[]> {
+    const database = await this.getDatabase();
+    const rows = database
+      .prepare(
+        `SELECT key FROM ${this.table} WHERE substr(key, 1, ?) = ? ORDER BY key`
+      )
+      .all(prefix.length, prefix) as { key: string }[];
+    return rows.map((row) => row.key);
+  }
+
+  async stat(key: string): Promise<FileStat | undefined> {
+    const database = await this.getDatabase();
+    const row = database
+      .prepare(
+        `SELECT bytes, written_at AS writtenAt, content_type AS contentType
+         FROM ${this.table} WHERE key = ?`
+      )
+      .get(key) as
+      | { bytes: number; writtenAt: string; contentType: string | null }
+      | undefined;
+    if (!row) return undefined;
+    return {
+      key,
+      size: row.bytes,
+      lastModified: new Date(row.writtenAt),
+      ...(row.contentType ? { contentType: row.contentType } : {}),
+    };
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.stat(key)) !== undefined;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const database = await this.getDatabase();
+    return database.transaction(() => {
+      this.deleteChunks(database, key);
+      return (
+        database.prepare(`DELETE FROM ${this.table} WHERE key = ?`).run(key)
+          .changes > 0
+      );
+    })();
+  }
+
+  /**
+   * Close the database connection, unless it was passed in through the options.
+   */
+  close(): void {
+    if (this.database && this.ownsDatabase) {
+      this.database.close();
+      this.database = undefined;
+    }
+  }
+
+  toString(): string {
+    // Return just the database file - prefix and sessionId are already part of resolved keys
+    return `sqlite://${this.filename}`;
+  }
+
+  /**
+   * Replace the file at params.key with the chunks staged under `staging`, in one transaction.
+   */
+  private commit(
+    database: BetterSqlite3.Database,
+    staging: string,
+    params: { key: string; contentType?: string; metadata?: FileWriteMetadata },
+    bytes: number
+  ): void {
+    const { key, metadata } = params;
+    database.transaction(() => {
+      this.deleteChunks(database, key);
+      database
+        .prepare(`UPDATE ${this.table}_chunks SET key = ? WHERE key = ?`)
+        .run(key, staging);
+      database
+        .prepare(
+          `INSERT OR REPLACE INTO ${this.table}
+             (key, session_id, tool_name, tool_call_id, timestamp, content_type, bytes, written_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          key,
+          metadata?.sessionId ?? null,
+          metadata?.toolName ?? null,
+          metadata?.toolCallId ?? null,
+          metadata?.timestamp ?? null,
+          params.contentType ?? null,
+          bytes,
+          new Date().toISOString()
+        );
+    })();
+  }
+
+  private stagingKey(key: string): string {
+    // NUL can't appear in keys resolved by the adapter, so staging keys never collide
+    return `${key}\u0000${randomUUID()}`;
+  }
+
+  private insertChunkStatement(database: BetterSqlite3.Database) {
+    return database.prepare(
+      `INSERT INTO ${this.table}_chunks (key, seq, data) VALUES (?, ?, ?)`
+    );
+  }
+
+  private readChunkStatement(database: BetterSqlite3.Database) {
+    return database.prepare<[string, number], { data: Buffer }>(
+      `SELECT data FROM ${this.table}_chunks WHERE key = ? AND seq = ?`
+    );
+  }
+
+  private deleteChunks(database: BetterSqlite3.Database, key: string): void {
+    database.prepare(`DELETE FROM ${this.table}_chunks WHERE key = ?`).run(key);
+  }
+
+  /**
+   * Sequence numbers of a file's chunks, in order. Throws if the file doesn't exist.
+   */
+  private chunkSeqs(database: BetterSqlite3.Database, key: string): number[] {
+    const row = database
+      .prepare(`SELECT 1 FROM ${this.table} WHERE key = ?`)
+      .get(key);
+    if (!row) {
+      throw new Error(`File not found in SQLite storage: ${key}`);
+    }
+    return (
+      database
+        .prepare(
+          `SELECT seq FROM ${this.table}_chunks WHERE key = ? ORDER BY seq`
+        )
+        .all(key) as { seq: number }[]
+    ).map((chunk) => chunk.seq);
+  }
+
+  private async getDatabase(): Promise<BetterSqlite3.Database> {
+    if (!this.database) {
+      // Loaded on first use so better-sqlite3 is only needed when SQLite storage is used
+      const { default: Database } = await import("better-sqlite3");
+      if (this.filename !== ":memory:") {
+        await fs.promises.mkdir(path.dirname(this.filename), {
+          recursive: true,
+        });
+      }
+      const database = new Database(this.filename);
+      if (this.filename !== ":memory:") database.pragma("journal_mode = WAL");
+      this.createTable(database);
+      this.database = database;
+    }
+    return this.database;
+  }
+
+  private createTable(database: BetterSqlite3.Database): void {
+    database.exec(
+      `CREATE TABLE IF NOT EXISTS ${this.table} (
+         key TEXT PRIMARY KEY,
+         session_id TEXT,
+         tool_name TEXT,
+         tool_call_id TEXT,
+         timestamp TEXT,
+         content_type TEXT,
+         bytes INTEGER NOT NULL,
+         written_at TEXT NOT NULL
+       );
+       CREATE INDEX IF NOT EXISTS ${this.table}_tool_call
+         ON ${this.table} (session_id, tool_name, tool_call_id);
+       CREATE TABLE IF NOT EXISTS ${this.table}_chunks (
+         key TEXT NOT NULL,
+         seq INTEGER NOT NULL,
+         data BLOB NOT NULL,
+         PRIMARY KEY (key, seq)
+       );`
+    );
+  }
+}
+
+export function sqliteUriToOptions(uri: string): SqliteFileAdapterOptions {
+  // Expect sqlite:///abs/path/to/db[?table=name]
+  const url = new URL(uri);
+  if (url.protocol !== "sqlite:" || url.hostname || !url.pathname) {
+    throw new Error(
+      `Invalid SQLite URI: ${uri}. Expected sqlite:///path/to/db`
+    );
+  }
+  const table = url.searchParams.get("table") ?? undefined;
+  return {
+    filename: decodeURIComponent(url.pathname),
+    ...(table ? { table } : {}),
+  };
+}
@@ -1,9 +1,28 @@
-import type { ModelMessage } from "ai";
+import type { LanguageModel, ModelMessage } from "ai";
+import { randomUUID } from "node:crypto";
 import type { FileAdapter } from "../sandbox-code-generator/file-adapter.js";
+import type { PreviewOptions } from "./lib/preview.js";
+import type { PersistedFormat } from "./lib/formats.js";
+import type { FileReaderHint } from "./lib/reader-hints.js";
 import { createFileAdapter, type UriOrAdapter } from "./lib/resolver.js";
+import { countMessageTokens, estimateTokens } from "./lib/tokens.js";
 import {
-  dropToolResultsStrategy,
-  writeToolResultsToFileStrategy,
+  buildCompactionReport,
+  snapshotCompactedParts,
+  type CompactionReport,
+} from "./report.js";
+import {
+  resolveCompactionStrategy,
+  type CompactionStrategy,
+} from "./registry.js";
+import {
+  type CompactionThreshold,
+  detectStrategyWindow,
+  detectWindowRange,
+  type ErrorPolicy,
+  isToolMessage,
+  type ToolPolicy,
+  type ToolResultKeyStrategy,
   type Boundary,
 } from "./strategies/index.js";
 
@@ -13,9 +32,20 @@ import {
  */
 export interface CompactOptions {
   /**
-   * Compaction strategy to use. Currently only "write-tool-results-to-file" is supported.
+   * Compaction strategy to use. Defaults to "write-tool-results-to-file".
+   * - "write-tool-results-to-file": Persist outputs to storage and reference them
+   * - "drop-tool-results": Replace outputs with a short notice
+   * - "summarize-tool-results": Persist outputs and reference them with a model-written summary
+   * Also accepts any name registered with registerCompactionStrategy(), a strategy function,
+   * or an array of these to run as a pipeline.
    */
-  strategy?: "write-tool-results-to-file" | string;
+  strategy?:
+    | "write-tool-results-to-file"
+    | "drop-tool-results"
+    | "summarize-tool-results"
+    | string
+    | CompactionStrategy
+    | Array<string | CompactionStrategy>;
   /**
    * Storage location to persist tool outputs. Accepts FileAdapter instance or URI string.
    * If omitted, defaults to the current working directory.
@@ -26,25 +56,149 @@ export interface CompactOptions {
    * - "all": Compact entire conversation
    * - { type: "keep-first", count: N }: Keep first N messages intact
    * - { type: "keep-last", count: N }: Keep last N messages intact
+   * - { type: "token-budget", maxTokens: N }: Compact oldest tool results until the
+   *   conversation fits within N tokens
    */
   boundary?: Boundary;
   /**
-   * Function to convert tool outputs (objects) to strings before writing to storage.
-   * Defaults to JSON.stringify(value, null, 2).
+   * Function to convert persisted records (tool output plus metadata) to strings before
+   * writing files in the "json" format. Defaults to JSON.stringify(value, null, 2).
    */
   toolResultSerializer?: (value: unknown) => string;
+  /**
+   * Format of persisted files; the file extension and content type follow it:
+   * - "json" (default): metadata and output, via toolResultSerializer (.json)
+   * - "ndjson": a metadata line, then one line per item of array outputs (.ndjson)
+   * - "csv": arrays of objects as a table with a header row (.csv)
+   * - "markdown": tables for arrays of objects, text as-is, fenced JSON otherwise (.md)
+   * - "text": string outputs as raw text (.txt)
+   * csv, markdown and text files hold only the output. Outputs that don't fit the format are
+   * written as JSON.
+   */
+  format?: PersistedFormat;
+  /** Per-tool formats, overriding `format` for the named tools. */
+  toolFormats?: Record<string, PersistedFormat>;
   /**
    * Tool names that are recognized as reading from storage (e.g., read/search tools). Their results
    * will not be re-written; instead, a friendly reference to the source is shown. Provide custom names
    * if you use your own read/search tools.
    */
   fileReaderTools?: string[];
+  /**
+   * Re-run hints for reader tools, keyed by tool name: `(input) => string` renders the call that
+   * reproduces the result, e.g. `sandbox_grep({ pattern: "foo", path: "mcp" })`, and the hint is
+   * written into the placeholder. Merged over the built-in hints for sandbox_ls, sandbox_cat,
+   * sandbox_grep and sandbox_find. Tools listed here are treated as reader tools.
+   */
+  fileReaderHints?: Record<string, FileReaderHint>;
   /**
    * Optional session ID to organize persisted tool results.
-   * Files will be organized as: {storage}/{sessionId}/tool-results/{toolName}-{seq}.json
-   * If omitted, a random session ID will be generated.
+   * Files will be organized as: {storage}/{sessionId}/tool-results/{toolName}-{toolCallId}.json
+   * If omitted, a random session ID is generated once per compact() call.
    */
   sessionId?: string;
+  /**
+   * Chooses the file name for each persisted tool result. Receives the tool name, toolCallId,
+   * the result's per-tool sequence number and the session ID.
+   * Defaults to {toolName}-{toolCallId}.json, or {toolName}-{seq}.json without a toolCallId.
+   */
+  keyStrategy?: ToolResultKeyStrategy;
+  /**
+   * Minimum serialized size (in bytes) a tool output must reach to be compacted.
+   * Smaller outputs are left inline. Applies to all strategies.
+   */
+  minSizeBytes?: number;
+  /**
+   * Minimum estimated token count a tool output must reach to be compacted.
+   * Smaller outputs are left inline. Applies to all strategies.
+   */
+  minTokens?: number;
+  /**
+   * Per-tool threshold overrides keyed by tool name, e.g. { fetchEmails: { minTokens: 50 } }.
+   */
+  toolThresholds?: Record<string, CompactionThreshold>;
+  /**
+   * Model used by the "summarize-tool-results" strategy, and by "summarize" policies, to
+   * summarize tool outputs.
+   */
+  summaryModel?: LanguageModel;
+  /**
+   * Instructions for the summary model. Defaults to a short, factual summary prompt.
+   */
+  summaryInstructions?: string;
+  /**
+   * Maximum tokens per summary. Defaults to 300.
+   */
+  summaryMaxOutputTokens?: number;
+  /**
+   * Include a structural preview in file references so the model can decide whether it needs
+   * to read the file: byte/line counts, top-level keys and array lengths, an inferred shape and
+   * the first lines or items. Pass true for defaults or PreviewOptions to tune it.
+   * Defaults to false.
+   */
+  preview?: boolean | PreviewOptions;
+  /**
+   * Per-tool preview settings keyed by tool name, overriding `preview`.
+   */
+  toolPreviews?: Record<string, boolean | PreviewOptions>;
+  /**
+   * Also offload large assistant tool-call inputs, such as code passed to sandbox_exec or file
+   * bodies passed to sandbox_write_file. The input is replaced with
+   * { compactedInput: "Written to file: ..." }; toolCallId and toolName are kept so calls still
+   * pair with their results. Pass true to offload inputs of 1 KB or more, or a threshold.
+   * Applies to the write and summarize strategies. Defaults to false.
+   */
+  compactToolCallInputs?: boolean | CompactionThreshold;
+  /**
+   * Also offload inline media: images and files in `content` tool outputs and `image`/`file`
+   * parts of user and assistant messages. The bytes are written with their media type and each
+   * item is replaced by a text reference with its media type, size and image dimensions.
+   * Pass true to offload all inline media, or { minSizeBytes } to keep small media inline.
+   * Applies to the write and summarize strategies. Defaults to false.
+   */
+  compactMedia?: boolean | { minSizeBytes?: number };
+  /**
+   * Stream persisted JSON and NDJSON files to storage through FileAdapter.openWriteStream
+   * instead of building each file in memory, for very large tool outputs. true (or "json")
+   * streams files in the configured format; "ndjson" also defaults `format` to "ndjson".
+   * Adapters without openWriteStream fall back to the regular write. Defaults to false.
+   */
+  streaming?: boolean | "json" | "ndjson";
+  /**
+   * Store identical tool outputs once, under a content-addressed key, and replace later
+   * occurrences with a short "Same as result of call X" reference. Useful when agents repeat
+   * the same call (e.g. re-listing a directory). Outputs are only shared within a session, so
+   * purging one session never removes a file another one points at. Applies to the write and
+   * summarize strategies. Defaults to false.
+   */
+  deduplicate?: boolean;
+  /**
+   * How error outputs (`error-text` / `error-json`) are treated, so the model keeps the error
+   * message it needs to self-correct. Applies to every strategy, reader tools included.
+   * - "keep-inline" (default): leave errors untouched
+   * - "truncate": keep errors inline, shortened to 1,000 characters
+   * - "persist": compact errors like any other result
+   */
+  errorPolicy?: ErrorPolicy;
+  /**
+   * Per-tool policies that override the strategy for matching tools. Keys are tool names or
+   * globs such as "mcp__github__*"; an exact name wins over globs. Values are an action or a
+   * function `({ toolName, toolCallId, output }) => action | undefined`:
+   * - "keep": leave results inline
+   * - "drop": replace results with a short note
+   * - "persist": write results to storage without a summary
+   * - "summarize": write results to storage with a summary (requires summaryModel)
+   * Tools without a policy get the strategy's default handling. With the drop-tool-results
+   * strategy only "keep" and "drop" are available.
+   */
+  policies?: Record<string, ToolPolicy>;
+  /**
+   * Only compact when the conversation ends with assistant text, i.e. after the model has
+   * replied. Defaults to true. Set to false to also compact mid-turn, when the conversation
+   * ends with tool results (e.g. between steps of a long tool loop). The trailing tool-result
+   * batch, the results the model is about to read, is then kept intact.
+   */
+  requireAssistantText?: boolean;
 }
 
 /**
@@ -55,7 +209,9 @@ export async function compact(
   messages: ModelMessage[],
   options: CompactOptions = {}
 ): Promise<ModelMessage[]> {
-  const strategy = options.strategy ?? "write-tool-results-to-file";
+  const resolved = resolveCompactionStrategy(
+    options.strategy ?? "write-tool-results-to-file"
+  );
   // Default: compact the entire conversation
   const boundary: Boundary = options.boundary ?? "all";
   const adapter: FileAdapter =
@@ -64,29 +220,97 @@ export async function compact(
       : createFileAdapter(options.storage);
   const toolResultSerializer =
     options.toolResultSerializer ?? ((v) => JSON.stringify(v, null, 2));
+  // Chosen once so every strategy run of this call records the same session
+  const strategyOptions: CompactOptions = {
+    ...options,
+    sessionId: options.sessionId ?? `session-${randomUUID().slice(0, 8)}`,
+  };
+  const runStrategy = async (
+    msgs: ModelMessage[],
+    windowBoundary: Boundary
+  ): Promise<ModelMessage[]> =>
+    await resolved(msgs, {
+      boundary: windowBoundary,
+      range: detectStrategyWindow(msgs, {
+        boundary: windowBoundary,
+        requireAssistantText: options.requireAssistantText,
+      }) ?? { start: 0, endExclusive: 0 },
+      adapter,
+      toolResultSerializer,
+      options: strategyOptions,
+    });
+
+  if (typeof boundary === "object" && boundary.type === "token-budget") {
+    return await compactToTokenBudget(messages, boundary, runStrategy);
+  }
+
+  return await runStrategy(messages, boundary);
+}
 
-  switch (strategy) {
-    case "write-tool-results-to-file":
-      return await writeToolResultsToFileStrategy(messages, {
-        boundary,
-        adapter,
-        toolResultSerializer,
-        fileReaderTools: [
-          "sandbox_ls",
-          "sandbox_cat",
-          "sandbox_grep",
-          "sandbox_find",
-          ...(options.fileReaderTools ?? []),
-        ],
-        sessionId: options.sessionId,
-      });
-    case "drop-tool-results":
-      return await dropToolResultsStrategy(messages, {
-        boundary,
-      });
-    default:
-      throw new Error(`Unknown compaction strategy: ${strategy}`);
+/**
+ * Compact messages like compact() and also report what was offloaded: one entry per compacted
+ * tool result (tool, call, strategy, storage key, bytes before/after, estimated tokens saved)
+ * plus overall and per-tool totals.
+ */
+export async function compactWithReport(
+  messages: ModelMessage[],
+  options: CompactOptions = {}
+): Promise<{ messages: ModelMessage[]; report: CompactionReport }> {
+  const before = snapshotCompactedParts(messages);
+  const compacted = await compact(messages, options);
+  return {
+    messages: compacted,
+    report: buildCompactionReport(compacted, before),
+  };
+}
+
+/**
+ * Compact tool results oldest-first until the conversation fits within the token budget.
+ * Messages after the last compacted tool message are kept verbatim.
+ */
+async function compactToTokenBudget(
+  messages: ModelMessage[],
+  boundary: Extract<Boundary, { type: "token-budget" }>,
+  runStrategy: (
+    msgs: ModelMessage[],
+    windowBoundary: Boundary
+  ) => Promise<ModelMessage[]>
+): Promise<ModelMessage[]> {
+  const tokenizer = boundary.tokenizer ?? estimateTokens;
+  const maxTokens = Number.isFinite(boundary.maxTokens)
+    ? Math.max(0, boundary.maxTokens)
+    : Infinity;
+  const fits = (msgs: ModelMessage[]) =>
+    countMessageTokens(msgs, tokenizer) <= maxTokens;
+
+  let current = Array.isArray(messages) ? [...messages] : [];
+  if (fits(current)) return current;
+
+  const { start, endExclusive } = detectWindowRange(current, boundary);
+  for (let i = start; i < endExclusive; i++) {
+    if (!isToolMessage(current[i])) continue;
+    // Compact everything up to and including this tool message; keep the rest intact
+    current = await runStrategy(current, {
+      type: "keep-last",
+      count: current.length - (i + 1),
+    });
+    if (fits(current)) break;
   }
+
+  return current;
 }
 
-export type { Boundary } from "./strategies/index.js";
+export type { PreviewOptions } from "./lib/preview.js";
+export type { PersistedFormat } from "./lib/formats.js";
+export type { FileReaderHint } from "./lib/reader-hints.js";
+export type {
+  Boundary,
+  CompactionThreshold,
+  ErrorPolicy,
+  PersistedToolResult,
+  ToolPolicy,
+  ToolPolicyAction,
+  ToolPolicyContext,
+  ToolResultKeyContext,
+  ToolResultKeyStrategy,
+} from "./strategies/index.js";
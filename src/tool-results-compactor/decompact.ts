@@ -0,0 +1,149 @@
+import type { ModelMessage } from "ai";
+import type { FileAdapter } from "../sandbox-code-generator/file-adapter.js";
+import { parsePersistedToolResult } from "./lib/json-stream.js";
+import {
+  getCompactionMetadata,
+  parseWrittenToFileReference,
+  withoutCompactionMetadata,
+} from "./lib/placeholder.js";
+import { createFileAdapter, type UriOrAdapter } from "./lib/resolver.js";
+import {
+  isAssistantMessageWithParts,
+  isToolMessage,
+  type PersistedToolResult,
+} from "./strategies/index.js";
+
+/**
+ * Options for restoring compacted tool results.
+ */
+export interface DecompactOptions {
+  /**
+   * Storage the tool outputs were persisted to. Accepts FileAdapter instance or URI string.
+   * If omitted, defaults to the current working directory.
+   */
+  storage?: UriOrAdapter;
+  /**
+   * Only restore results and inputs of these tool calls. Restores everything if omitted.
+   */
+  toolCallIds?: string[];
+}
+
+async function readPersisted(
+  adapter: FileAdapter,
+  key: string
+): Promise<string> {
+  if (adapter.readText) return await adapter.readText({ key });
+  if (adapter.openReadStream) {
+    const stream = await adapter.openReadStream({ key });
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream as AsyncIterable<Buffer | string>) {
+      chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+    }
+    return Buffer.concat(chunks).toString("utf8");
+  }
+  throw new Error(
+    "Adapter does not support read operations needed for decompact."
+  );
+}
+
+/**
+ * Find the storage key of a compacted tool-result or tool-call part, from its metadata or placeholder text.
+ */
+function findPersistedKey(part: any): string | undefined {
+  const metadata = getCompactionMetadata(part);
+  if (part?.type === "tool-call") return metadata?.key;
+  if (part?.type !== "tool-result") return undefined;
+  if (metadata) return metadata.key;
+  return part.output?.type === "text"
+    ? parseWrittenToFileReference(part.output.value)?.key
+    : undefined;
+}
+
+/**
+ * Rebuild the original tool output from a persisted tool result.
+ */
+export function restoreToolOutput(persisted: PersistedToolResult): any {
+  const { output, metadata } = persisted;
+  const outputType = metadata?.outputType;
+  if (outputType === "json") return { type: "json", value: output };
+  if (outputType === "text" && typeof output === "string") {
+    return { type: "text", value: output };
+  }
+  // Whole output objects were persisted as-is
+  if (output && typeof output === "object" && typeof output.type === "string") {
+    return output;
+  }
+  if (typeof output === "string") return { type: "text", value: output };
+  return { type: "json", value: output };
+}
+
+/**
+ * Restore tool outputs (and tool-call inputs) that compact() replaced with "Written to file:"
+ * references, by reading the persisted results back from storage. Returns a new message list; the input is not modified.
+ *
+ * Results that were dropped, or that came from reader tools, cannot be restored and are left as-is.
+ * So are references whose file can no longer be read. Results persisted as csv, markdown or text
+ * files are restored as text outputs holding the file contents.
+ */
+export async function decompact(
+  messages: ModelMessage[],
+  options: DecompactOptions = {}
+): Promise<ModelMessage[]> {
+  const adapter: FileAdapter =
+    typeof options.storage === "object" && options.storage
+      ? options.storage
+      : createFileAdapter(options.storage);
+  const only = options.toolCallIds ? new Set(options.toolCallIds) : undefined;
+  const msgs = Array.isArray(messages) ? messages : [];
+
+  const out: ModelMessage[] = [];
+  for (const msg of msgs) {
+    if (!isToolMessage(msg) && !isAssistantMessageWithParts(msg)) {
+      out.push(msg);
+      continue;
+    }
+
+    let changed = false;
+    const content: any[] = [];
+    for (const part of (msg as any).content) {
+      const key = findPersistedKey(part);
+      if (!key || (only && !only.has(part.toolCallId))) {
+        content.push(part);
+        continue;
+      }
+
+      let restored: Record<string, unknown>;
+      try {
+        const text = await readPersisted(adapter, key);
+        const format = getCompactionMetadata(part)?.format;
+        if (format && format !== "ndjson") {
+          // csv, markdown and text files hold only the rendered output
+          restored = { output: { type: "text", value: text } };
+        } else {
+          const persisted = parsePersistedToolResult(text);
+          restored =
+            part.type === "tool-call"
+              ? { input: persisted.output }
+              : { output: restoreToolOutput(persisted) };
+        }
+      } catch {
+        // Missing or unreadable file: keep the reference
+        content.push(part);
+        continue;
+      }
+
+      const { providerOptions: _compacted, ...rest } = part;
+      const providerOptions = withoutCompactionMetadata(part);
+      content.push({
+        ...rest,
+        ...restored,
+        ...(providerOptions ? { providerOptions } : {}),
+      });
+      changed = true;
+    }
+
+    out.push(changed ? ({ ...msg, content } as ModelMessage) : msg);
+  }
+
+  return out;
+}
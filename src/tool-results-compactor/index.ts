@@ -1,4 +1,48 @@
 // Tool Results Compactor - Public API
 
-export { compact } from "./compact";
-export type { Boundary, CompactOptions } from "./compact";
+export { compact, compactWithReport } from "./compact";
+export { decompact } from "./decompact";
+export { grepObject } from "./lib/grep";
+export type { GrepResultLine } from "./lib/grep";
+export { createCompactingPrepareStep } from "./prepare-step";
+export type { DecompactOptions } from "./decompact";
+export type {
+  CompactionReport,
+  CompactionReportEntry,
+  CompactionTotals,
+} from "./report";
+export {
+  composeCompactionStrategies,
+  getCompactionStrategy,
+  registerCompactionStrategy,
+  unregisterCompactionStrategy,
+} from "./registry";
+export type { CompactionStrategy, CompactionStrategyContext } from "./registry";
+export { applyRetention } from "./retention";
+export type {
+  RetainedSessionRemoval,
+  RetentionOptions,
+  RetentionReport,
+} from "./retention";
+export {
+  listSessions,
+  listSessionToolResults,
+  listStoredToolResults,
+  purgeSession,
+} from "./sessions";
+export type { StoredToolResult, StoredToolResultsOptions } from "./sessions";
+export type {
+  Boundary,
+  CompactionThreshold,
+  CompactOptions,
+  ErrorPolicy,
+  FileReaderHint,
+  PersistedFormat,
+  PersistedToolResult,
+  PreviewOptions,
+  ToolPolicy,
+  ToolPolicyAction,
+  ToolPolicyContext,
+  ToolResultKeyContext,
+  ToolResultKeyStrategy,
+} from "./compact";
@@ -0,0 +1,185 @@
+import type { PersistedToolResult } from "../strategies/index.js";
+import { serializeNdjsonChunks } from "./json-stream.js";
+
+/**
+ * File format of a persisted tool result.
+ *
+ * - "json": the PersistedToolResult record (metadata + output), via toolResultSerializer
+ * - "ndjson": a metadata line, then one line per item of an array output
+ * - "csv": a header row and one row per item of an array of objects (or arrays)
+ * - "markdown": a table for arrays of objects, the text for strings, fenced JSON otherwise
+ * - "text": the raw text of string outputs
+ *
+ * csv, markdown and text files hold only the output, so code in the sandbox can read them
+ * directly. Outputs that don't fit a format (e.g. an object for "csv") are written as JSON.
+ */
+export type PersistedFormat = "json" | "ndjson" | "csv" | "markdown" | "text";
+
+/** File extension and content type written for each format. */
+export const PERSISTED_FORMAT_FILE_TYPES: Record<
+  PersistedFormat,
+  { extension: string; contentType: string }
+> = {
+  json: { extension: "json", contentType: "application/json" },
+  ndjson: { extension: "ndjson", contentType: "application/x-ndjson" },
+  csv: { extension: "csv", contentType: "text/csv" },
+  markdown: { extension: "md", contentType: "text/markdown" },
+  text: { extension: "txt", contentType: "text/plain" },
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+/**
+ * Whether a value is tabular: a non-empty array of objects, or of arrays.
+ */
+function isTabular(value: unknown): value is unknown[] {
+  if (!Array.isArray(value) || value.length === 0) return false;
+  return value.every(isPlainObject) || value.every((row) => Array.isArray(row));
+}
+
+/**
+ * The format an output is actually written in: the requested one, or "json" when the output
+ * doesn't fit it.
+ */
+export function resolvePersistedFormat(
+  format: PersistedFormat | undefined,
+  output: unknown
+): PersistedFormat {
+  switch (format) {
+    case "ndjson":
+      return Array.isArray(output) ? "ndjson" : "json";
+    case "csv":
+      return isTabular(output) ? "csv" : "json";
+    case "text":
+      return typeof output === "string" ? "text" : "json";
+    case "markdown":
+      return "markdown";
+    default:
+      return "json";
+  }
+}
+
+/**
+ * Swap the .json extension of a key-strategy file name for the format's extension.
+ * Names without a .json extension are kept as-is.
+ */
+export function withFormatExtension(
+  fileName: string,
+  format: PersistedFormat
+): string {
+  if (format === "json" || !fileName.endsWith(".json")) return fileName;
+  return `${fileName.slice(0, -".json".length)}.${
+    PERSISTED_FORMAT_FILE_TYPES[format].extension
+  }`;
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "string") return value;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Columns of a table: the union of object keys in first-seen order, or indexes for arrays.
+ */
+function tableColumns(rows: unknown[]): string[] {
+  if (rows.every((row) => Array.isArray(row))) {
+    const width = Math.max(...rows.map((row) => (row as unknown[]).length));
+    return Array.from({ length: width }, (_, n) => String(n));
+  }
+  const columns = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row as object)) columns.add(key);
+  }
+  return [...columns];
+}
+
+function csvField(value: unknown): string {
+  const text = cellText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render tabular data as CSV (RFC 4180 quoting). Rows of arrays are written without a header.
+ */
+export function toCsv(rows: unknown[]): string {
+  const arrays = rows.every((row) => Array.isArray(row));
+  const columns = tableColumns(rows);
+  const lines = arrays ? [] : [columns.map(csvField).join(",")];
+  for (const row of rows) {
+    lines.push(
+      columns.map((column) => csvField((row as any)[column])).join(",")
+    );
+  }
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+function markdownCell(value: unknown): string {
+  return cellText(value).replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+/**
+ * Render an output as Markdown: a table for arrays of objects, the text itself for strings,
+ * and a fenced JSON block for anything else.
+ */
+export function toMarkdown(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (isTabular(value) && value.every(isPlainObject)) {
+    const columns = tableColumns(value);
+    const lines = [
+      `| ${columns.map(markdownCell).join(" | ")} |`,
+      `| ${columns.map(() => "---").join(" | ")} |`,
+      ...value.map(
+        (row) =>
+          `| ${columns
+            .map((column) => markdownCell((row as any)[column]))
+            .join(" | ")} |`
+      ),
+    ];
+    return `${lines.join("\n")}\n`;
+  }
+  return `\`\`\`json\n${JSON.stringify(value, null, 2)}\n\`\`\`\n`;
+}
+
+/**
+ * Records of an NDJSON file: the metadata, then each item of the output array.
+ */
+export function* persistedNdjsonRecords(
+  persisted: PersistedToolResult
+): Generator<unknown> {
+  yield { metadata: { ...persisted.metadata, format: "ndjson" } };
+  yield* persisted.output;
+}
+
+/**
+ * Serialize a persisted tool result in the given format (see resolvePersistedFormat).
+ */
+export function serializePersistedToolResult(
+  persisted: PersistedToolResult,
+  format: PersistedFormat,
+  serializer: (value: unknown) => string
+): string {
+  switch (format) {
+    case "ndjson":
+      return [...serializeNdjsonChunks(persistedNdjsonRecords(persisted))].join(
+        ""
+      );
+    case "csv":
+      return toCsv(persisted.output);
+    case "markdown":
+      return toMarkdown(persisted.output);
+    case "text":
+      return persisted.output;
+    default:
+      return serializer(persisted);
+  }
+}
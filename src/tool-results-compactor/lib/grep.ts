@@ -6,6 +6,10 @@ export interface GrepResultLine {
   line: string;
 }
 
+/**
+ * Lines of a stored file matching a pattern, with 1-based line numbers. Streams the file when
+ * the adapter supports openReadStream, else reads it whole.
+ */
 export async function grepObject(
   adapter: FileAdapter,
   key: string,
@@ -0,0 +1,254 @@
+import { once } from "node:events";
+import { StringDecoder } from "node:string_decoder";
+import type { PersistedToolResult } from "../strategies/index.js";
+
+// Characters buffered before a chunk is handed to the stream
+const WRITE_BATCH_CHARS = 64 * 1024;
+
+function toJsonValue(value: any, key: string): any {
+  if (value && typeof value.toJSON === "function") return value.toJSON(key);
+  return value;
+}
+
+function isOmitted(value: unknown): boolean {
+  return (
+    value === undefined ||
+    typeof value === "function" ||
+    typeof value === "symbol"
+  );
+}
+
+/**
+ * Serialize a value to JSON as a sequence of chunks, producing the same text as
+ * JSON.stringify(value, null, indent) without holding the whole string in memory.
+ * Arrays and objects are emitted element by element.
+ */
+export function* serializeJsonChunks(
+  value: unknown,
+  indent = 0
+): Generator<string> {
+  yield* serializeValue(toJsonValue(value, ""), indent, "");
+}
+
+function* serializeValue(
+  value: any,
+  indent: number,
+  currentIndent: string
+): Generator<string> {
+  if (value === null || typeof value !== "object") {
+    yield JSON.stringify(value) ?? "null";
+    return;
+  }
+
+  const innerIndent = currentIndent + " ".repeat(indent);
+  const open = indent > 0 ? `\n${innerIndent}` : "";
+  const separator = indent > 0 ? `,\n${innerIndent}` : ",";
+  const close = indent > 0 ? `\n${currentIndent}` : "";
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      yield "[]";
+      return;
+    }
+    yield `[${open}`;
+    for (let i = 0; i < value.length; i++) {
+      if (i > 0) yield separator;
+      const item = toJsonValue(value[i], String(i));
+      if (isOmitted(item)) yield "null";
+      else yield* serializeValue(item, indent, innerIndent);
+    }
+    yield `${close}]`;
+    return;
+  }
+
+  let first = true;
+  for (const [key, raw] of Object.entries(value)) {
+    const item = toJsonValue(raw, key);
+    if (isOmitted(item)) continue;
+    yield `${first ? `{${open}` : separator}${JSON.stringify(key)}:${
+      indent > 0 ? " " : ""
+    }`;
+    first = false;
+    yield* serializeValue(item, indent, innerIndent);
+  }
+  yield first ? "{}" : `${close}}`;
+}
+
+/**
+ * Serialize records as newline-delimited JSON, one compact JSON document per line.
+ */
+export function* serializeNdjsonChunks(
+  records: Iterable<unknown>
+): Generator<string> {
+  for (const record of records) {
+    yield* serializeJsonChunks(record);
+    yield "\n";
+  }
+}
+
+/**
+ * Join small chunks into batches of at least WRITE_BATCH_CHARS characters.
+ */
+export function* batchChunks(chunks: Iterable<string>): Generator<string> {
+  let pending = "";
+  for (const chunk of chunks) {
+    pending += chunk;
+    if (pending.length >= WRITE_BATCH_CHARS) {
+      yield pending;
+      pending = "";
+    }
+  }
+  if (pending) yield pending;
+}
+
+/**
+ * Byte length of JSON.stringify(value, null, indent), computed chunk by chunk without holding
+ * the whole string in memory.
+ */
+export function jsonByteLength(value: unknown, indent = 0): number {
+  let bytes = 0;
+  for (const chunk of batchChunks(serializeJsonChunks(value, indent))) {
+    bytes += Buffer.byteLength(chunk, "utf8");
+  }
+  return bytes;
+}
+
+/**
+ * Write chunks to a stream, batching small chunks and waiting for the stream to drain when its
+ * buffer is full. Resolves with the number of bytes written once the stream has finished.
+ */
+export async function writeChunksToStream(
+  stream: NodeJS.WritableStream,
+  chunks: Iterable<string>
+): Promise<number> {
+  let failure: unknown;
+  const onError = (err: unknown) => {
+    failure ??= err;
+  };
+  // Keep a listener attached throughout so a write error can't go unhandled
+  stream.on("error", onError);
+
+  let bytes = 0;
+  let pending = "";
+  const flush = async () => {
+    bytes += Buffer.byteLength(pending, "utf8");
+    const accepted = stream.write(pending);
+    pending = "";
+    // once() rejects if the stream emits "error" while we wait
+    if (!accepted) await once(stream, "drain");
+    if (failure) throw failure;
+  };
+
+  try {
+    for (const chunk of chunks) {
+      pending += chunk;
+      if (pending.length >= WRITE_BATCH_CHARS) await flush();
+    }
+    if (pending) await flush();
+
+    await new Promise<void>((resolve, reject) => {
+      if (failure) return reject(failure);
+      stream.once("error", reject);
+      stream.end(() => resolve());
+    });
+  } finally {
+    stream.removeListener("error", onError);
+  }
+  return bytes;
+}
+
+/**
+ * Parse a persisted tool result file, written either as a single JSON document or as NDJSON
+ * (a metadata line with format "ndjson" followed by one line per output item).
+ */
+export function parsePersistedToolResult(text: string): PersistedToolResult {
+  const lines = text.split("\n").filter((line) => line.trim() !== "");
+  let head: any;
+  try {
+    head = JSON.parse(lines[0] ?? "");
+  } catch {
+    // A multi-line JSON document doesn't parse line by line
+  }
+  if (head?.metadata?.format === "ndjson") {
+    return {
+      metadata: head.metadata,
+      output: lines.slice(1).map((line) => JSON.parse(line)),
+    };
+  }
+  return JSON.parse(text);
+}
+
+/**
+ * Read just the metadata of a persisted tool result file, or undefined if the text isn't one
+ * (e.g. media, or a csv/markdown/text output).
+ */
+export function parsePersistedMetadata(
+  text: string
+): Partial<PersistedToolResult["metadata"]> | undefined {
+  try {
+    const metadata = parsePersistedToolResult(text)?.metadata;
+    return metadata && typeof metadata === "object" ? metadata : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// A persisted tool result starts with its metadata: `{"metadata": {...}, ...`
+const LEADING_METADATA_PATTERN = /^\s*\{\s*"metadata"\s*:\s*(?=\{)/;
+// Text read before giving up on finding the metadata at the start of a file
+const MAX_METADATA_CHARS = 64 * 1024;
+
+/**
+ * Find the end of the JSON object starting at text[start], or -1 if the text ends first.
+ */
+function findObjectEnd(text: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === "\\") i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "{") {
+      depth++;
+    } else if (char === "}" && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Read just the metadata of a persisted tool result from the start of a stream: the leading
+ * "metadata" object of a JSON record, or of the first line of an NDJSON file. Stops reading as
+ * soon as the metadata is complete; undefined if the file doesn't start with it.
+ */
+export async function readPersistedMetadata(
+  stream: NodeJS.ReadableStream
+): Promise<Partial<PersistedToolResult["metadata"]> | undefined> {
+  // Decoded incrementally so characters split across chunks stay intact
+  const decoder = new StringDecoder("utf8");
+  let text = "";
+  for await (const chunk of stream) {
+    text += typeof chunk === "string" ? chunk : decoder.write(chunk);
+    const match = LEADING_METADATA_PATTERN.exec(text);
+    if (!match) {
+      // Without a match in the first few hundred characters, this isn't a persisted result
+      if (text.length >= 256) return undefined;
+      continue;
+    }
+    const start = match[0].length;
+    const end = findObjectEnd(text, start);
+    if (end !== -1) {
+      try {
+        return JSON.parse(text.slice(start, end + 1));
+      } catch {
+        return undefined;
+      }
+    }
+    if (text.length >= MAX_METADATA_CHARS) return undefined;
+  }
+  return undefined;
+}
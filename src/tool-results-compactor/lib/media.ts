@@ -0,0 +1,147 @@
+/**
+ * Width and height of an image in pixels.
+ */
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/svg+xml": "svg",
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav",
+  "video/mp4": "mp4",
+  "application/pdf": "pdf",
+  "application/zip": "zip",
+  "text/plain": "txt",
+  "text/csv": "csv",
+};
+
+/**
+ * File extension for a media type, falling back to "bin" for unknown types.
+ */
+export function extensionForMediaType(mediaType: string | undefined): string {
+  const normalized = (mediaType ?? "").split(";")[0].trim().toLowerCase();
+  return EXTENSIONS[normalized] ?? "bin";
+}
+
+/**
+ * Decode inline media data (base64 string, data URL, Uint8Array, Buffer or ArrayBuffer) into
+ * bytes. Returns undefined for URLs, which point at content that isn't in the conversation.
+ */
+export function decodeMediaData(
+  data: unknown
+): { bytes: Uint8Array; mediaType?: string } | undefined {
+  if (data instanceof Uint8Array) return { bytes: data };
+  if (data instanceof ArrayBuffer) return { bytes: new Uint8Array(data) };
+  if (typeof data !== "string") return undefined;
+
+  const dataUrl = /^data:([^;,]+)?(?:;[^,]*)?;base64,/.exec(data);
+  if (dataUrl) {
+    return {
+      bytes: Buffer.from(data.slice(dataUrl[0].length), "base64"),
+      mediaType: dataUrl[1],
+    };
+  }
+  // Anything URL-like (https:, s3:, ...) is a reference, not inline data
+  if (/^[a-z][a-z0-9+.-]*:/i.test(data)) return undefined;
+  return { bytes: Buffer.from(data, "base64") };
+}
+
+/**
+ * Detect PNG, GIF, JPEG and WebP images from their magic bytes.
+ */
+export function detectImageMediaType(bytes: Uint8Array): string | undefined {
+  const buf = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (buf.length >= 8 && buf.readUInt32BE(0) === 0x89504e47) return "image/png";
+  if (buf.length >= 6 && buf.toString("ascii", 0, 3) === "GIF") {
+    return "image/gif";
+  }
+  if (buf.length >= 3 && buf[0] === 0xff && buf[1] === 0xd8) {
+    return "image/jpeg";
+  }
+  if (
+    buf.length >= 12 &&
+    buf.toString("ascii", 0, 4) === "RIFF" &&
+    buf.toString("ascii", 8, 12) === "WEBP"
+  ) {
+    return "image/webp";
+  }
+  return undefined;
+}
+
+/**
+ * Read the pixel dimensions of a PNG, GIF, JPEG or WebP image from its header.
+ */
+export function readImageDimensions(
+  bytes: Uint8Array
+): ImageDimensions | undefined {
+  const buf = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // PNG: IHDR is the first chunk
+  if (buf.length >= 24 && buf.readUInt32BE(0) === 0x89504e47) {
+    return { width: buf.readUInt32BE(16), height: buf.readUInt32BE(20) };
+  }
+
+  // GIF87a / GIF89a
+  if (buf.length >= 10 && buf.toString("ascii", 0, 3) === "GIF") {
+    return { width: buf.readUInt16LE(6), height: buf.readUInt16LE(8) };
+  }
+
+  // JPEG: walk the segments to the first start-of-frame marker
+  if (buf.length >= 4 && buf[0] === 0xff && buf[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 <= buf.length) {
+      if (buf[offset] !== 0xff) return undefined;
+      const marker = buf[offset + 1];
+      const isStartOfFrame =
+        marker >= 0xc0 &&
+        marker <= 0xcf &&
+        marker !== 0xc4 &&
+        marker !== 0xc8 &&
+        marker !== 0xcc;
+      if (isStartOfFrame) {
+        return {
+          width: buf.readUInt16BE(offset + 7),
+          height: buf.readUInt16BE(offset + 5),
+        };
+      }
+      offset += 2 + buf.readUInt16BE(offset + 2);
+    }
+    return undefined;
+  }
+
+  // WebP: RIFF container with a VP8, VP8L or VP8X chunk
+  if (
+    buf.length >= 30 &&
+    buf.toString("ascii", 0, 4) === "RIFF" &&
+    buf.toString("ascii", 8, 12) === "WEBP"
+  ) {
+    const chunk = buf.toString("ascii", 12, 16);
+    if (chunk === "VP8X") {
+      return {
+        width: buf.readUIntLE(24, 3) + 1,
+        height: buf.readUIntLE(27, 3) + 1,
+      };
+    }
+    if (chunk === "VP8 ") {
+      return {
+        width: buf.readUInt16LE(26) & 0x3fff,
+        height: buf.readUInt16LE(28) & 0x3fff,
+      };
+    }
+    if (chunk === "VP8L") {
+      const bits = buf.readUInt32LE(21);
+      return {
+        width: (bits & 0x3fff) + 1,
+        height: ((bits >> 14) & 0x3fff) + 1,
+      };
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,123 @@
+/**
+ * Reference to a persisted tool result, parsed from a compaction placeholder.
+ */
+export interface ParsedFileReference {
+  key: string;
+}
+
+const READ_HINT_PATTERN = /sandbox_cat\(\{ file: "((?:[^"\\]|\\.)+)" \}\)/;
+
+/**
+ * Parse a "Written to file: ..." placeholder and return the storage key it points at.
+ */
+export function parseWrittenToFileReference(
+  text: unknown
+): ParsedFileReference | undefined {
+  if (typeof text !== "string" || !text.startsWith("Written to file:")) {
+    return undefined;
+  }
+  const match = READ_HINT_PATTERN.exec(text);
+  return match ? { key: match[1] } : undefined;
+}
+
+/** providerOptions namespace holding compaction metadata on rewritten parts. */
+export const COMPACTION_METADATA_KEY = "ctxZip";
+
+/**
+ * Machine-readable metadata attached to compacted parts as providerOptions.ctxZip.
+ */
+export interface CompactionMetadata {
+  compacted: true;
+  /** Name of the strategy that compacted the part. */
+  strategy: string;
+  /** Storage key of the persisted output, when it was persisted. */
+  key?: string;
+  /**
+   * Serialized size of the original output in bytes. For outputs streamed to storage, the size
+   * of the written file.
+   */
+  bytes?: number;
+  /** Format of the persisted file when it isn't "json" (see PersistedFormat). */
+  format?: string;
+  /** Hash of the original output, set when deduplication is enabled. */
+  contentHash?: string;
+  /** Media type of an offloaded image or file part. */
+  mediaType?: string;
+  /** Pixel dimensions of an offloaded image, when they could be read. */
+  width?: number;
+  height?: number;
+  /** Media items offloaded from a `content` tool output, in order. */
+  media?: MediaReference[];
+}
+
+/**
+ * Persisted media item, as recorded in compaction metadata.
+ */
+export interface MediaReference {
+  key: string;
+  mediaType: string;
+  /** Size of the decoded media in bytes. */
+  bytes: number;
+  width?: number;
+  height?: number;
+}
+
+// Placeholders written before compaction metadata existed
+const LEGACY_PREFIXES = ["Written to file:", "Read from file:"];
+
+/**
+ * Read the compaction metadata of a part, if it has any.
+ */
+export function getCompactionMetadata(
+  part: any
+): CompactionMetadata | undefined {
+  const metadata = part?.providerOptions?.[COMPACTION_METADATA_KEY];
+  return metadata && metadata.compacted === true ? metadata : undefined;
+}
+
+/**
+ * Return a copy of the part's providerOptions with compaction metadata added.
+ */
+export function withCompactionMetadata(
+  part: any,
+  metadata: Omit<CompactionMetadata, "compacted">
+): Record<string, any> {
+  const entry: Record<string, any> = { compacted: true };
+  for (const [name, value] of Object.entries(metadata)) {
+    if (value !== undefined) entry[name] = value;
+  }
+  return {
+    ...(part?.providerOptions ?? {}),
+    [COMPACTION_METADATA_KEY]: entry,
+  };
+}
+
+/**
+ * Return the part's providerOptions without compaction metadata, or undefined if nothing is left.
+ */
+export function withoutCompactionMetadata(
+  part: any
+): Record<string, any> | undefined {
+  if (!part?.providerOptions) return undefined;
+  const { [COMPACTION_METADATA_KEY]: _removed, ...rest } = part.providerOptions;
+  return Object.keys(rest).length > 0 ? rest : undefined;
+}
+
+/**
+ * Determine whether a tool-result part was already compacted, either from its metadata or,
+ * for older conversations, from the placeholder text.
+ */
+export function isCompactedPart(part: any): boolean {
+  if (getCompactionMetadata(part)) return true;
+  const output = part?.output;
+  const text =
+    typeof output === "string"
+      ? output
+      : output?.type === "text"
+      ? output.value
+      : undefined;
+  return (
+    typeof text === "string" &&
+    LEGACY_PREFIXES.some((prefix) => text.startsWith(prefix))
+  );
+}
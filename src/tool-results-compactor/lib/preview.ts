@@ -0,0 +1,132 @@
+import { serializeJsonChunks } from "./json-stream.js";
+
+/**
+ * Options for the structural preview included in compaction references.
+ */
+export interface PreviewOptions {
+  /** Number of leading lines shown for text outputs. Defaults to 5. */
+  headLines?: number;
+  /** Number of leading items shown for array outputs. Defaults to 3. */
+  headItems?: number;
+  /** Include top-level keys and array lengths. Defaults to true. */
+  keys?: boolean;
+  /** Include an inferred TypeScript-like shape. Defaults to true. */
+  shape?: boolean;
+  /** Include byte and line counts. Defaults to true. */
+  stats?: boolean;
+  /** Maximum length of the rendered preview in characters. Defaults to 1000. */
+  maxChars?: number;
+}
+
+const MAX_SHAPE_DEPTH = 3;
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return `array[${value.length}]`;
+  return typeof value;
+}
+
+/**
+ * Infer a compact TypeScript-like shape for a JSON value, e.g. { id: string, tags: string[] }.
+ */
+export function inferShape(value: unknown, depth = 0): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) {
+    if (value.length === 0) return "unknown[]";
+    const itemShape = inferShape(value[0], depth + 1);
+    return itemShape.startsWith("{") ? `Array<${itemShape}>` : `${itemShape}[]`;
+  }
+  if (typeof value === "object") {
+    if (depth >= MAX_SHAPE_DEPTH) return "object";
+    const entries = Object.entries(value as Record<string, unknown>);
+    if (entries.length === 0) return "{}";
+    return `{ ${entries
+      .map(([key, v]) => `${key}: ${inferShape(v, depth + 1)}`)
+      .join(", ")} }`;
+  }
+  return typeof value;
+}
+
+/**
+ * Size, line count and first lines of a value as text: strings as-is, other values as
+ * JSON.stringify(value, null, 2). JSON is scanned chunk by chunk, so large outputs are never
+ * serialized whole.
+ */
+function scanText(
+  value: unknown,
+  headLines: number
+): { bytes: number; lineCount: number; head: string[] } {
+  const chunks =
+    typeof value === "string" ? [value] : serializeJsonChunks(value, 2);
+  let bytes = 0;
+  let lineCount = 1;
+  let line = "";
+  const head: string[] = [];
+  for (const chunk of chunks) {
+    bytes += Buffer.byteLength(chunk, "utf8");
+    chunk.split(/\r?\n/).forEach((piece, n) => {
+      if (n > 0) {
+        lineCount++;
+        if (head.length < headLines) head.push(line);
+        line = "";
+      }
+      if (head.length < headLines) line += piece;
+    });
+  }
+  if (head.length < headLines) head.push(line);
+  return { bytes, lineCount, head };
+}
+
+/**
+ * Render a short structural preview of a tool output: stats, top-level keys, shape and head.
+ */
+export function buildPreview(
+  value: unknown,
+  options: PreviewOptions = {}
+): string {
+  const headLines = options.headLines ?? 5;
+  const headItems = options.headItems ?? 3;
+  const maxChars = options.maxChars ?? 1000;
+  const text = scanText(value, headLines);
+  const lines: string[] = [];
+
+  if (options.stats !== false) {
+    lines.push(`- Size: ${text.bytes} bytes, ${text.lineCount} lines`);
+  }
+
+  const isObject =
+    value !== null && typeof value === "object" && !Array.isArray(value);
+  if (options.keys !== false && isObject) {
+    const keys = Object.entries(value as Record<string, unknown>).map(
+      ([key, v]) => `${key} (${describeType(v)})`
+    );
+    if (keys.length > 0) lines.push(`- Keys: ${keys.join(", ")}`);
+  }
+  if (options.keys !== false && Array.isArray(value)) {
+    lines.push(`- Items: ${value.length}`);
+  }
+
+  if (options.shape !== false && typeof value !== "string") {
+    lines.push(`- Shape: ${inferShape(value)}`);
+  }
+
+  let head: string[];
+  if (Array.isArray(value)) {
+    head = value.slice(0, headItems).map((item) => JSON.stringify(item));
+    if (value.length > headItems) {
+      head.push(`... ${value.length - headItems} more items`);
+    }
+  } else {
+    head = text.head;
+    if (text.lineCount > headLines)
+      head.push(`... ${text.lineCount - headLines} more lines`);
+  }
+  if (head.length > 0) {
+    lines.push("- Head:", ...head.map((line) => `  ${line}`));
+  }
+
+  const rendered = `Preview:\n${lines.join("\n")}`;
+  return rendered.length > maxChars
+    ? `${rendered.slice(0, maxChars)}...`
+    : rendered;
+}
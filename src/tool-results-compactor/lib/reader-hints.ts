@@ -0,0 +1,52 @@
+/**
+ * Renders the call that reproduces a file-reader tool's result from the tool-call input, e.g.
+ * `sandbox_grep({ pattern: "foo", path: "mcp" })`. Return undefined when no hint applies.
+ */
+export type FileReaderHint = (input: any) => string | undefined;
+
+/**
+ * Render a tool call as `toolName({ key: value, ... })`, skipping undefined arguments.
+ */
+export function formatToolCallHint(
+  toolName: string,
+  args: Record<string, unknown>
+): string {
+  const rendered = Object.entries(args ?? {})
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `${name}: ${JSON.stringify(value)}`);
+  return rendered.length > 0
+    ? `${toolName}({ ${rendered.join(", ")} })`
+    : `${toolName}({})`;
+}
+
+/**
+ * Re-run hints for the built-in sandbox exploration tools. Arguments left at their default
+ * are omitted.
+ */
+export const DEFAULT_FILE_READER_HINTS: Record<string, FileReaderHint> = {
+  sandbox_ls: (input) =>
+    formatToolCallHint("sandbox_ls", {
+      path: input?.path,
+      showHidden: input?.showHidden || undefined,
+    }),
+  sandbox_cat: (input) =>
+    input?.file
+      ? formatToolCallHint("sandbox_cat", { file: input.file })
+      : undefined,
+  sandbox_grep: (input) =>
+    input?.pattern
+      ? formatToolCallHint("sandbox_grep", {
+          pattern: input.pattern,
+          path: input.path,
+          recursive: input.recursive === false ? false : undefined,
+          caseInsensitive: input.caseInsensitive || undefined,
+        })
+      : undefined,
+  sandbox_find: (input) =>
+    input?.pattern
+      ? formatToolCallHint("sandbox_find", {
+          pattern: input.pattern,
+          path: input.path,
+        })
+      : undefined,
+};
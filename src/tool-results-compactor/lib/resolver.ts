@@ -1,9 +1,19 @@
 import path from "node:path";
 import {
+  InMemoryFileAdapter,
   LocalFileAdapter,
   fileUriToOptions,
+  memoryUriToOptions,
   type FileAdapter as IFileAdapter,
 } from "../../sandbox-code-generator/file-adapter.js";
+import {
+  S3FileAdapter,
+  s3UriToOptions,
+} from "../../sandbox-code-generator/s3-file-adapter.js";
+import {
+  SqliteFileAdapter,
+  sqliteUriToOptions,
+} from "../../sandbox-code-generator/sqlite-file-adapter.js";
 
 export type UriOrAdapter = string | IFileAdapter | undefined;
 
@@ -18,8 +28,17 @@ export function createFileAdapter(uriOrAdapter?: UriOrAdapter): IFileAdapter {
     const options = fileUriToOptions(uri);
     return new LocalFileAdapter(options);
   }
+  if (lower.startsWith("memory:")) {
+    return new InMemoryFileAdapter(memoryUriToOptions(uri));
+  }
+  if (lower.startsWith("s3:")) {
+    return new S3FileAdapter(s3UriToOptions(uri));
+  }
+  if (lower.startsWith("sqlite:")) {
+    return new SqliteFileAdapter(sqliteUriToOptions(uri));
+  }
   throw new Error(
-    `Unsupported storage URI: ${uri}. Only file:// URIs are supported.`
+    `Unsupported storage URI: ${uri}. Only file://, memory://, s3:// and sqlite:// URIs are supported.`
   );
 }
 
@@ -0,0 +1,18 @@
+import type { ModelMessage } from "ai";
+
+/**
+ * Rough token estimate for a string: ~4 characters per token.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Count tokens in a list of messages by tokenizing their JSON representation.
+ */
+export function countMessageTokens(
+  messages: ModelMessage[],
+  tokenizer: (text: string) => number = estimateTokens
+): number {
+  return tokenizer(JSON.stringify(messages));
+}
@@ -0,0 +1,104 @@
+import type { ModelMessage, PrepareStepFunction, ToolSet } from "ai";
+import { randomUUID } from "node:crypto";
+import { compact, type CompactOptions } from "./compact.js";
+import { getCompactionMetadata } from "./lib/placeholder.js";
+import { hashToolOutput } from "./strategies/index.js";
+
+interface CompactedPart {
+  /** Content hash of the part before compaction, to check the position still holds it. */
+  originalHash: string;
+  part: any;
+}
+
+function partPosition(messageIndex: number, partIndex: number): string {
+  return `${messageIndex}:${partIndex}`;
+}
+
+/**
+ * Put back the parts compacted in earlier steps. The history only grows between steps, so a
+ * part keeps its position; a cached part is only used while that position still holds the
+ * part it was compacted from.
+ */
+function reuseCompactedParts(
+  messages: ModelMessage[],
+  compactedParts: Map<string, CompactedPart>
+): ModelMessage[] {
+  if (compactedParts.size === 0) return messages;
+  return messages.map((msg, i) => {
+    if (!Array.isArray(msg.content)) return msg;
+    let content: any[] | undefined;
+    (msg.content as any[]).forEach((part, j) => {
+      const compacted = compactedParts.get(partPosition(i, j));
+      if (!compacted || compacted.originalHash !== hashToolOutput(part)) {
+        return;
+      }
+      content ??= [...msg.content];
+      content[j] = compacted.part;
+    });
+    return content ? ({ ...msg, content } as ModelMessage) : msg;
+  });
+}
+
+function rememberCompactedParts(
+  original: ModelMessage[],
+  compacted: ModelMessage[],
+  compactedParts: Map<string, CompactedPart>
+): void {
+  compacted.forEach((msg, i) => {
+    if (!Array.isArray(msg.content)) return;
+    (msg.content as any[]).forEach((part, j) => {
+      if (!getCompactionMetadata(part)) return;
+      const before: any = (original[i]?.content as any[] | undefined)?.[j];
+      compactedParts.set(partPosition(i, j), {
+        originalHash: hashToolOutput(before),
+        part,
+      });
+    });
+  });
+}
+
+/**
+ * Create a prepareStep function for generateText/streamText that compacts the conversation
+ * before every step, so tool outputs don't pile up within a single multi-step run.
+ *
+ * Compaction runs while tool calls are in flight (requireAssistantText defaults to false here).
+ * The final message, i.e. the latest tool-result batch the model is about to read, is never
+ * compacted.
+ *
+ * Every step receives the full, uncompacted history, so the function remembers the parts it
+ * compacted and reuses them: each result is written (and summarized) once per run, and all
+ * steps of a run share one session ID. The first step of a run (stepNumber 0) starts afresh,
+ * so the function can be reused across runs; without options.sessionId each run gets its own.
+ *
+ * @example
+ * const result = await generateText({
+ *   model,
+ *   tools,
+ *   prompt,
+ *   stopWhen: stepCountIs(10),
+ *   prepareStep: createCompactingPrepareStep({ storage: fileAdapter }),
+ * });
+ */
+export function createCompactingPrepareStep<TOOLS extends ToolSet = ToolSet>(
+  options: CompactOptions = {}
+): PrepareStepFunction<TOOLS> {
+  const newRunOptions = (): CompactOptions => ({
+    requireAssistantText: false,
+    ...options,
+    sessionId: options.sessionId ?? `session-${randomUUID().slice(0, 8)}`,
+  });
+  let compactOptions = newRunOptions();
+  const compactedParts = new Map<string, CompactedPart>();
+  return async ({ messages, stepNumber }) => {
+    if (stepNumber === 0) {
+      compactOptions = newRunOptions();
+      compactedParts.clear();
+    }
+    const compacted = await compact(
+      reuseCompactedParts(messages, compactedParts),
+      compactOptions
+    );
+    rememberCompactedParts(messages, compacted, compactedParts);
+    return { messages: compacted };
+  };
+}
@@ -0,0 +1,201 @@
+import type { ModelMessage } from "ai";
+import type { FileAdapter } from "../sandbox-code-generator/file-adapter.js";
+import type { CompactOptions } from "./compact.js";
+import { DEFAULT_FILE_READER_HINTS } from "./lib/reader-hints.js";
+import {
+  createToolResultSummarizer,
+  dropToolResultsStrategy,
+  summarizeToolResultsStrategy,
+  writeToolResultsToFileStrategy,
+  type Boundary,
+  type WriteToolResultsToFileOptions,
+} from "./strategies/index.js";
+
+/**
+ * Everything a compaction strategy receives besides the messages.
+ */
+export interface CompactionStrategyContext {
+  /** Boundary used to compute the window. */
+  boundary: Boundary;
+  /**
+   * The [start, endExclusive) window of messages the strategy may compact. Empty when the
+   * conversation should be left as-is (see CompactOptions.requireAssistantText).
+   */
+  range: { start: number; endExclusive: number };
+  /** Storage for persisted tool outputs. */
+  adapter: FileAdapter;
+  /** Converts tool outputs into strings before writing. */
+  toolResultSerializer: (value: unknown) => string;
+  /** The options compact() was called with, for strategy-specific settings. */
+  options: CompactOptions;
+}
+
+/**
+ * A compaction strategy rewrites messages within the window and returns the new message list.
+ */
+export interface CompactionStrategy {
+  (messages: ModelMessage[], context: CompactionStrategyContext): Promise<
+    ModelMessage[]
+  >;
+}
+
+const DEFAULT_FILE_READER_TOOLS = [
+  "sandbox_ls",
+  "sandbox_cat",
+  "sandbox_grep",
+  "sandbox_find",
+];
+
+function thresholdOptions(options: CompactOptions) {
+  return {
+    minSizeBytes: options.minSizeBytes,
+    minTokens: options.minTokens,
+    toolThresholds: options.toolThresholds,
+  };
+}
+
+function writeOptionsFromContext(
+  context: CompactionStrategyContext
+): WriteToolResultsToFileOptions {
+  const { options } = context;
+  return {
+    boundary: context.boundary,
+    adapter: context.adapter,
+    toolResultSerializer: context.toolResultSerializer,
+    fileReaderTools: [
+      ...DEFAULT_FILE_READER_TOOLS,
+      ...(options.fileReaderTools ?? []),
+    ],
+    fileReaderHints: {
+      ...DEFAULT_FILE_READER_HINTS,
+      ...options.fileReaderHints,
+    },
+    sessionId: options.sessionId,
+    keyStrategy: options.keyStrategy,
+    preview: options.preview,
+    toolPreviews: options.toolPreviews,
+    compactToolCallInputs: options.compactToolCallInputs,
+    compactMedia: options.compactMedia,
+    errorPolicy: options.errorPolicy,
+    policies: options.policies,
+    deduplicate: options.deduplicate,
+    streaming: options.streaming,
+    format: options.format,
+    toolFormats: options.toolFormats,
+    requireAssistantText: options.requireAssistantText,
+    ...thresholdOptions(options),
+  };
+}
+
+const strategies = new Map<string, CompactionStrategy>([
+  [
+    "write-tool-results-to-file",
+    async (messages, context) => {
+      const { options } = context;
+      return await writeToolResultsToFileStrategy(messages, {
+        ...writeOptionsFromContext(context),
+        // Only tools with a "summarize" policy are summarized
+        defaultAction: "persist",
+        summarize: options.summaryModel
+          ? createToolResultSummarizer({
+              model: options.summaryModel,
+              instructions: options.summaryInstructions,
+              maxOutputTokens: options.summaryMaxOutputTokens,
+            })
+          : undefined,
+      });
+    },
+  ],
+  [
+    "summarize-tool-results",
+    async (messages, context) => {
+      const { options } = context;
+      if (!options.summaryModel) {
+        throw new Error(
+          'The "summarize-tool-results" strategy requires the summaryModel option.'
+        );
+      }
+      return await summarizeToolResultsStrategy(messages, {
+        ...writeOptionsFromContext(context),
+        model: options.summaryModel,
+        instructions: options.summaryInstructions,
+        maxOutputTokens: options.summaryMaxOutputTokens,
+      });
+    },
+  ],
+  [
+    "drop-tool-results",
+    async (messages, context) =>
+      await dropToolResultsStrategy(messages, {
+        boundary: context.boundary,
+        requireAssistantText: context.options.requireAssistantText,
+        errorPolicy: context.options.errorPolicy,
+        policies: context.options.policies,
+        ...thresholdOptions(context.options),
+      }),
+  ],
+]);
+
+/**
+ * Register a compaction strategy under a name so it can be selected with
+ * `compact(messages, { strategy: name })`. Registering an existing name replaces it.
+ */
+export function registerCompactionStrategy(
+  name: string,
+  strategy: CompactionStrategy
+): void {
+  if (!name) throw new Error("Compaction strategy name is required.");
+  if (typeof strategy !== "function") {
+    throw new Error(`Compaction strategy "${name}" must be a function.`);
+  }
+  strategies.set(name, strategy);
+}
+
+/**
+ * Remove a registered compaction strategy. Returns true if it existed.
+ */
+export function unregisterCompactionStrategy(name: string): boolean {
+  return strategies.delete(name);
+}
+
+/**
+ * Look up a registered compaction strategy by name.
+ */
+export function getCompactionStrategy(
+  name: string
+): CompactionStrategy | undefined {
+  return strategies.get(name);
+}
+
+/**
+ * Combine several strategies into one that runs them in order, each on the previous output.
+ * Accepts registered names or strategy functions.
+ */
+export function composeCompactionStrategies(
+  ...steps: Array<string | CompactionStrategy>
+): CompactionStrategy {
+  return async (messages, context) => {
+    let current = messages;
+    for (const step of steps) {
+      current = await resolveCompactionStrategy(step)(current, context);
+    }
+    return current;
+  };
+}
+
+/**
+ * Resolve a strategy name, function or pipeline into a single strategy.
+ */
+export function resolveCompactionStrategy(
+  strategy: string | CompactionStrategy | Array<string | CompactionStrategy>
+): CompactionStrategy {
+  if (Array.isArray(strategy)) {
+    return composeCompactionStrategies(...strategy);
+  }
+  if (typeof strategy === "function") return strategy;
+  const registered = strategies.get(strategy);
+  if (!registered) {
+    throw new Error(`Unknown compaction strategy: ${strategy}`);
+  }
+  return registered;
+}
@@ -0,0 +1,145 @@
+import type { ModelMessage } from "ai";
+import { getCompactionMetadata } from "./lib/placeholder.js";
+
+/**
+ * One part rewritten by a compaction run: a tool result, a tool-call input, or inline media.
+ */
+export interface CompactionReportEntry {
+  /** Tool name, or "{role}-{image|file}" for media parts of user and assistant messages. */
+  toolName: string;
+  /** Absent for media parts of user and assistant messages, which belong to no tool call. */
+  toolCallId?: string;
+  /**
+   * "tool-call" when an assistant tool-call input was offloaded, "image" or "file" when a media
+   * part of a user or assistant message was.
+   */
+  partType: "tool-result" | "tool-call" | "image" | "file";
+  /** Index of the message containing the part. */
+  messageIndex: number;
+  /** Strategy that compacted the part. */
+  strategy: string;
+  /** Storage key of the persisted output, when it was persisted. */
+  key?: string;
+  /** Serialized size of the output (or input) before compaction. */
+  bytesBefore: number;
+  /** Serialized size of the placeholder that replaced it. */
+  bytesAfter: number;
+  /** Estimated tokens saved (~4 bytes per token). */
+  estimatedTokensSaved: number;
+}
+
+/**
+ * Aggregate savings, overall or for a single tool.
+ */
+export interface CompactionTotals {
+  compactedParts: number;
+  bytesBefore: number;
+  bytesAfter: number;
+  bytesSaved: number;
+  estimatedTokensSaved: number;
+}
+
+/**
+ * What a compaction run offloaded and how much it saved.
+ */
+export interface CompactionReport {
+  entries: CompactionReportEntry[];
+  totals: CompactionTotals & { byTool: Record<string, CompactionTotals> };
+}
+
+function emptyTotals(): CompactionTotals {
+  return {
+    compactedParts: 0,
+    bytesBefore: 0,
+    bytesAfter: 0,
+    bytesSaved: 0,
+    estimatedTokensSaved: 0,
+  };
+}
+
+function addToTotals(totals: CompactionTotals, entry: CompactionReportEntry) {
+  totals.compactedParts++;
+  totals.bytesBefore += entry.bytesBefore;
+  totals.bytesAfter += entry.bytesAfter;
+  totals.bytesSaved += entry.bytesBefore - entry.bytesAfter;
+  totals.estimatedTokensSaved += entry.estimatedTokensSaved;
+}
+
+function partPosition(messageIndex: number, partIndex: number): string {
+  return `${messageIndex}:${partIndex}`;
+}
+
+/**
+ * Record which tool-result parts are already compacted, by position.
+ * Take this snapshot before compacting and pass it to buildCompactionReport afterwards.
+ */
+export function snapshotCompactedParts(messages: ModelMessage[]): Set<string> {
+  const compacted = new Set<string>();
+  (Array.isArray(messages) ? messages : []).forEach((msg, i) => {
+    if (!Array.isArray(msg?.content)) return;
+    (msg as any).content.forEach((part: any, j: number) => {
+      if (getCompactionMetadata(part)) compacted.add(partPosition(i, j));
+    });
+  });
+  return compacted;
+}
+
+/**
+ * Build a report of the parts compacted since the snapshot was taken, using the compaction
+ * metadata the strategies attach to rewritten parts.
+ */
+export function buildCompactionReport(
+  messages: ModelMessage[],
+  before: Set<string>
+): CompactionReport {
+  const entries: CompactionReportEntry[] = [];
+  (Array.isArray(messages) ? messages : []).forEach((msg, i) => {
+    if (!Array.isArray(msg?.content)) return;
+    (msg as any).content.forEach((part: any, j: number) => {
+      const metadata = getCompactionMetadata(part);
+      if (!metadata || before.has(partPosition(i, j))) return;
+      const isCall = part.type === "tool-call";
+      // Media parts are replaced by a text part carrying the reference
+      const mediaType = part.type === "text" ? metadata.mediaType : undefined;
+      const bytesAfter = Buffer.byteLength(
+        (mediaType
+          ? part.text
+          : JSON.stringify(isCall ? part.input : part.output)) ?? "",
+        "utf8"
+      );
+      const bytesBefore = metadata.bytes ?? bytesAfter;
+      const mediaPartType = mediaType?.startsWith("image/") ? "image" : "file";
+      entries.push({
+        toolName: mediaType
+          ? `${msg.role}-${mediaPartType}`
+          : part.toolName || "unknown",
+        toolCallId: part.toolCallId,
+        partType: mediaType
+          ? mediaPartType
+          : isCall
+          ? "tool-call"
+          : "tool-result",
+        messageIndex: i,
+        strategy: metadata.strategy,
+        key: metadata.key,
+        bytesBefore,
+        bytesAfter,
+        estimatedTokensSaved: Math.max(
+          0,
+          Math.round((bytesBefore - bytesAfter) / 4)
+        ),
+      });
+    });
+  });
+
+  const totals = {
+    ...emptyTotals(),
+    byTool: {} as Record<string, CompactionTotals>,
+  };
+  for (const entry of entries) {
+    addToTotals(totals, entry);
+    totals.byTool[entry.toolName] ??= emptyTotals();
+    addToTotals(totals.byTool[entry.toolName], entry);
+  }
+  return { entries, totals };
+}
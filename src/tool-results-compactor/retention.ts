@@ -0,0 +1,180 @@
+import { createFileAdapter } from "./lib/resolver.js";
+import {
+  listStoredToolResults,
+  type StoredToolResult,
+  type StoredToolResultsOptions,
+} from "./sessions.js";
+
+/**
+ * Limits on the sessions kept in storage. Sessions are removed as a whole, oldest first, so a
+ * conversation never loses some of its results while keeping others.
+ */
+export interface RetentionOptions extends StoredToolResultsOptions {
+  /** Remove sessions with no result newer than this many milliseconds. */
+  maxAge?: number;
+  /** Keep at most this many sessions, the most recently active ones. */
+  maxSessions?: number;
+  /** Remove the oldest sessions until the stored results total at most this many bytes. */
+  maxTotalBytes?: number;
+  /** Report what would be removed without deleting anything. */
+  dryRun?: boolean;
+}
+
+/**
+ * A session removed (or, in a dry run, due to be removed) by applyRetention.
+ */
+export interface RetainedSessionRemoval {
+  sessionId: string;
+  /** Newest timestamp of the session's results (ISO 8601), when any is known. */
+  lastActivity?: string;
+  /** First limit the session exceeded. */
+  reason: "max-age" | "max-sessions" | "max-total-bytes";
+  keys: string[];
+  bytes: number;
+}
+
+/**
+ * Outcome of a retention run.
+ */
+export interface RetentionReport {
+  dryRun: boolean;
+  removed: RetainedSessionRemoval[];
+  /** Sessions left in storage, most recently active first. */
+  keptSessions: string[];
+  /** Bytes freed (or that would be freed) by removing the sessions. */
+  bytesRemoved: number;
+}
+
+interface SessionUsage {
+  sessionId: string;
+  lastActivity?: number;
+  entries: StoredToolResult[];
+  bytes: number;
+}
+
+function checkLimit(name: string, value: number | undefined) {
+  if (value !== undefined && !(value >= 0)) {
+    throw new Error(`${name} must be a non-negative number, got ${value}.`);
+  }
+}
+
+/**
+ * Time of a stored result: the metadata timestamp, or the file's modification time.
+ */
+function entryTime(entry: StoredToolResult): number | undefined {
+  const time = entry.timestamp ? Date.parse(entry.timestamp) : NaN;
+  if (!Number.isNaN(time)) return time;
+  return entry.lastModified?.getTime();
+}
+
+function groupBySession(entries: StoredToolResult[]): SessionUsage[] {
+  const sessions = new Map<string, SessionUsage>();
+  for (const entry of entries) {
+    if (!entry.sessionId) continue;
+    let session = sessions.get(entry.sessionId);
+    if (!session) {
+      session = { sessionId: entry.sessionId, entries: [], bytes: 0 };
+      sessions.set(entry.sessionId, session);
+    }
+    session.entries.push(entry);
+    session.bytes += entry.size ?? 0;
+    const time = entryTime(entry);
+    if (time !== undefined && time > (session.lastActivity ?? -Infinity)) {
+      session.lastActivity = time;
+    }
+  }
+  // Most recently active first; sessions with no known time count as the oldest
+  return [...sessions.values()].sort(
+    (a, b) => (b.lastActivity ?? 0) - (a.lastActivity ?? 0)
+  );
+}
+
+/**
+ * Remove stored sessions that exceed the retention limits, using the sessionId and timestamp
+ * recorded with each stored file (see listStoredToolResults), so media and csv/markdown/text
+ * outputs go with their session. Works with any adapter that supports list() and delete();
+ * maxTotalBytes also needs stat(). Files that belong to no session are never removed.
+ */
+export async function applyRetention(
+  options: RetentionOptions
+): Promise<RetentionReport> {
+  const { maxAge, maxSessions, maxTotalBytes, dryRun = false } = options;
+  checkLimit("maxAge", maxAge);
+  checkLimit("maxSessions", maxSessions);
+  checkLimit("maxTotalBytes", maxTotalBytes);
+
+  const adapter = createFileAdapter(options.storage);
+  if (!dryRun && !adapter.delete) {
+    throw new Error(
+      "Adapter does not support delete operations needed to apply retention."
+    );
+  }
+  if (maxTotalBytes !== undefined && !adapter.stat) {
+    throw new Error(
+      "Adapter does not support stat operations needed for maxTotalBytes."
+    );
+  }
+
+  const entries = await listStoredToolResults({ ...options, storage: adapter });
+  const sessions = groupBySession(entries);
+  const removals = new Map<string, RetainedSessionRemoval["reason"]>();
+
+  if (maxAge !== undefined) {
+    const cutoff = Date.now() - maxAge;
+    for (const session of sessions) {
+      // Sessions with no known time are left to the other limits
+      if (session.lastActivity !== undefined && session.lastActivity < cutoff) {
+        removals.set(session.sessionId, "max-age");
+      }
+    }
+  }
+
+  if (maxSessions !== undefined) {
+    sessions
+      .filter((session) => !removals.has(session.sessionId))
+      .slice(maxSessions)
+      .forEach((session) => removals.set(session.sessionId, "max-sessions"));
+  }
+
+  if (maxTotalBytes !== undefined) {
+    let totalBytes = entries.reduce((sum, entry) => sum + (entry.size ?? 0), 0);
+    for (const session of sessions) {
+      if (removals.has(session.sessionId)) totalBytes -= session.bytes;
+    }
+    for (const session of [...sessions].reverse()) {
+      if (totalBytes <= maxTotalBytes) break;
+      if (removals.has(session.sessionId)) continue;
+      removals.set(session.sessionId, "max-total-bytes");
+      totalBytes -= session.bytes;
+    }
+  }
+
+  const report: RetentionReport = {
+    dryRun,
+    removed: [],
+    keptSessions: [],
+    bytesRemoved: 0,
+  };
+  for (const session of sessions) {
+    const reason = removals.get(session.sessionId);
+    if (!reason) {
+      report.keptSessions.push(session.sessionId);
+      continue;
+    }
+    const keys = session.entries.map((entry) => entry.key);
+    if (!dryRun) {
+      for (const key of keys) await adapter.delete?.(key);
+    }
+    report.removed.push({
+      sessionId: session.sessionId,
+      ...(session.lastActivity !== undefined
+        ? { lastActivity: new Date(session.lastActivity).toISOString() }
+        : {}),
+      reason,
+      keys,
+      bytes: session.bytes,
+    });
+    report.bytesRemoved += session.bytes;
+  }
+  return report;
+}
@@ -0,0 +1,177 @@
+import type { FileAdapter } from "../sandbox-code-generator/file-adapter.js";
+import {
+  SqliteFileAdapter,
+  type SqliteFileRecord,
+} from "../sandbox-code-generator/sqlite-file-adapter.js";
+import {
+  parsePersistedMetadata,
+  readPersistedMetadata,
+} from "./lib/json-stream.js";
+import { createFileAdapter, type UriOrAdapter } from "./lib/resolver.js";
+
+/**
+ * A file written by compaction, with the metadata of the persisted tool result it holds.
+ */
+export interface StoredToolResult {
+  key: string;
+  /**
+   * Session from the metadata the adapter stored with the file or the persisted metadata in it,
+   * else from a "{sessionId}/tool-results/" segment of the key.
+   */
+  sessionId?: string;
+  toolName?: string;
+  toolCallId?: string;
+  /** When the result was persisted (ISO 8601), from the stored or persisted metadata. */
+  timestamp?: string;
+  /** Size in bytes, when the adapter supports stat(). */
+  size?: number;
+  lastModified?: Date;
+}
+
+/**
+ * Options for inspecting and cleaning up persisted tool results.
+ */
+export interface StoredToolResultsOptions {
+  /**
+   * Storage the tool outputs were persisted to. Accepts FileAdapter instance or URI string.
+   * If omitted, defaults to the current working directory.
+   */
+  storage?: UriOrAdapter;
+  /**
+   * Key prefix to scan. Defaults to the adapter's own key space, i.e. resolveKey("")
+   * (e.g. "compact/" for the local file adapter).
+   */
+  prefix?: string;
+}
+
+const SESSION_KEY_PATTERN = /(?:^|\/)([^/]+)\/tool-results\//;
+
+// Only these files can hold PersistedToolResult metadata
+const PERSISTED_EXTENSIONS = [".json", ".ndjson"];
+
+/**
+ * Read the metadata of a persisted tool result, streaming only the start of the file when the
+ * adapter supports it.
+ */
+async function readStoredMetadata(adapter: FileAdapter, key: string) {
+  if (!PERSISTED_EXTENSIONS.some((extension) => key.endsWith(extension))) {
+    return undefined;
+  }
+  if (adapter.openReadStream) {
+    return await readPersistedMetadata(await adapter.openReadStream({ key }));
+  }
+  return adapter.readText
+    ? parsePersistedMetadata(await adapter.readText({ key }))
+    : undefined;
+}
+
+async function describeStoredFile(
+  adapter: FileAdapter,
+  key: string
+): Promise<StoredToolResult> {
+  const stat = adapter.stat ? await adapter.stat(key) : undefined;
+  // Metadata stored by the adapter spares reading the file, and covers media and
+  // csv/markdown/text files, which hold none of their own
+  const metadata = stat?.metadata ?? (await readStoredMetadata(adapter, key));
+  const entry: StoredToolResult = { key };
+  const sessionId = metadata?.sessionId ?? SESSION_KEY_PATTERN.exec(key)?.[1];
+  if (sessionId) entry.sessionId = sessionId;
+  if (metadata?.toolName) entry.toolName = metadata.toolName;
+  if (metadata?.toolCallId) entry.toolCallId = metadata.toolCallId;
+  if (metadata?.timestamp) entry.timestamp = metadata.timestamp;
+  if (stat) {
+    entry.size = stat.size;
+    if (stat.lastModified) entry.lastModified = stat.lastModified;
+  }
+  return entry;
+}
+
+function describeSqliteRecord(record: SqliteFileRecord): StoredToolResult {
+  const entry: StoredToolResult = {
+    key: record.key,
+    size: record.bytes,
+    lastModified: new Date(record.writtenAt),
+  };
+  const sessionId =
+    record.sessionId ?? SESSION_KEY_PATTERN.exec(record.key)?.[1];
+  if (sessionId) entry.sessionId = sessionId;
+  if (record.toolName) entry.toolName = record.toolName;
+  if (record.toolCallId) entry.toolCallId = record.toolCallId;
+  if (record.timestamp) entry.timestamp = record.timestamp;
+  return entry;
+}
+
+/**
+ * List the files under a prefix with the metadata of the tool results they hold. Uses the
+ * metadata the adapter stored with each file, else reads the start of JSON and NDJSON files
+ * (SQLite storage answers from its index instead), so scope the prefix on large stores.
+ */
+export async function listStoredToolResults(
+  options: StoredToolResultsOptions = {}
+): Promise<StoredToolResult[]> {
+  const adapter = createFileAdapter(options.storage);
+  const prefix = options.prefix ?? adapter.resolveKey("");
+  if (adapter instanceof SqliteFileAdapter) {
+    return (await adapter.query({ prefix })).map(describeSqliteRecord);
+  }
+  if (!adapter.list) {
+    throw new Error(
+      "Adapter does not support list operations needed to find stored tool results."
+    );
+  }
+  const keys = await adapter.list(prefix);
+  const entries: StoredToolResult[] = [];
+  for (const key of keys) {
+    entries.push(await describeStoredFile(adapter, key));
+  }
+  return entries;
+}
+
+/**
+ * List the sessions that have stored tool results, in sorted order.
+ */
+export async function listSessions(
+  options: StoredToolResultsOptions = {}
+): Promise<string[]> {
+  const entries = await listStoredToolResults(options);
+  const sessions = new Set<string>();
+  for (const entry of entries) {
+    if (entry.sessionId) sessions.add(entry.sessionId);
+  }
+  return [...sessions].sort();
+}
+
+/**
+ * List the stored tool results of one session.
+ */
+export async function listSessionToolResults(
+  sessionId: string,
+  options: StoredToolResultsOptions = {}
+): Promise<StoredToolResult[]> {
+  const entries = await listStoredToolResults(options);
+  return entries.filter((entry) => entry.sessionId === sessionId);
+}
+
+/**
+ * Delete every stored tool result of a session. Resolves with the deleted keys.
+ */
+export async function purgeSession(
+  sessionId: string,
+  options: StoredToolResultsOptions = {}
+): Promise<string[]> {
+  const adapter = createFileAdapter(options.storage);
+  if (!adapter.delete) {
+    throw new Error(
+      "Adapter does not support delete operations needed to purge a session."
+    );
+  }
+  const entries = await listSessionToolResults(sessionId, {
+    ...options,
+    storage: adapter,
+  });
+  const deleted: string[] = [];
+  for (const entry of entries) {
+    if (await adapter.delete(entry.key)) deleted.push(entry.key);
+  }
+  return deleted;
+}
@@ -1,25 +1,75 @@
-import type { ModelMessage } from "ai";
-import { randomUUID } from "node:crypto";
-import type { FileAdapter } from "../../sandbox-code-generator/file-adapter.js";
+import { generateText, type LanguageModel, type ModelMessage } from "ai";
+import { createHash, randomUUID } from "node:crypto";
+import type {
+  FileAdapter,
+  FileWriteMetadata,
+} from "../../sandbox-code-generator/file-adapter.js";
+import {
+  PERSISTED_FORMAT_FILE_TYPES,
+  persistedNdjsonRecords,
+  resolvePersistedFormat,
+  serializePersistedToolResult,
+  withFormatExtension,
+  type PersistedFormat,
+} from "../lib/formats.js";
+import {
+  batchChunks,
+  jsonByteLength,
+  serializeJsonChunks,
+  serializeNdjsonChunks,
+  writeChunksToStream,
+} from "../lib/json-stream.js";
+import {
+  decodeMediaData,
+  detectImageMediaType,
+  extensionForMediaType,
+  readImageDimensions,
+} from "../lib/media.js";
+import {
+  getCompactionMetadata,
+  isCompactedPart,
+  withCompactionMetadata,
+  type MediaReference,
+} from "../lib/placeholder.js";
+import { buildPreview, type PreviewOptions } from "../lib/preview.js";
+import type { FileReaderHint } from "../lib/reader-hints.js";
+import { estimateTokens } from "../lib/tokens.js";
 
 /**
  * Metadata wrapper for persisted tool results
  */
-interface PersistedToolResult {
+export interface PersistedToolResult {
   metadata: {
     toolName: string;
     timestamp: string;
     toolCallId: string;
     sessionId: string;
+    /** Type of the original tool output ("json", "text", ...), used to restore it. */
+    outputType?: string;
+    /** Set to "tool-call-input" when `output` holds an assistant tool-call input. */
+    source?: "tool-call-input";
+    /**
+     * Set to "ndjson" when the file is newline-delimited JSON: this metadata record on the
+     * first line, then one line per item of the output array.
+     */
+    format?: "ndjson";
   };
   output: any;
 }
 
 function formatStoragePathForDisplay(storageUri: string, key: string): string {
   if (!storageUri) return key;
-  // For file:// and sandbox:// URIs, show the full path
-  if (storageUri.startsWith("file://") || storageUri.startsWith("sandbox://")) {
-    const base = storageUri.replace(/\/$/, "");
+  // For file://, sandbox://, memory:// and s3:// URIs, show the full path
+  if (
+    storageUri.startsWith("file://") ||
+    storageUri.startsWith("sandbox://") ||
+    storageUri.startsWith("memory://") ||
+    storageUri.startsWith("s3://")
+  ) {
+    // Keep the "//" of a URI without a name, such as memory://
+    const base = storageUri.endsWith("://")
+      ? storageUri
+      : storageUri.replace(/\/$/, "");
     return `${base}/${key}`;
   }
   // Default formatting uses colon separation
@@ -52,11 +102,20 @@ export function messageHasTextContent(message: ModelMessage | any): boolean {
  *   compaction afterwards. Useful to preserve initial system/instructions or early context.
  * - { type: "keep-last", count: number }: Keep the last N messages intact and compact
  *   everything before them. Useful to preserve recent context while compacting older messages.
+ * - { type: "token-budget", maxTokens: number, tokenizer?: (text) => number }: Keep the most
+ *   recent messages intact and compact older tool results, oldest first, until the conversation
+ *   fits within maxTokens. Useful when targeting models with different context limits.
  */
 export type Boundary =
   | "all"
   | { type: "keep-first"; count: number }
-  | { type: "keep-last"; count: number };
+  | { type: "keep-last"; count: number }
+  | {
+      type: "token-budget";
+      maxTokens: number;
+      /** Counts tokens in a string. Defaults to a ~4 characters per token estimate. */
+      tokenizer?: (text: string) => number;
+    };
 
 /**
  * Determine the starting index of the compaction window based on the chosen boundary.
@@ -143,36 +202,835 @@ export function detectWindowRange(
     return { start: 0, endExclusive };
   }
 
+  // Token budgets consider the whole conversation; compact() narrows the window
+  // oldest-first until the budget is met.
   return { start: 0, endExclusive: Math.max(0, len - 1) };
 }
 
+/**
+ * Index of the first message of the trailing tool-result batch: the tool messages at the end
+ * of the conversation that answer the latest assistant tool calls. Returns messages.length when
+ * the conversation doesn't end with a tool message.
+ */
+export function detectTrailingToolBatchStart(
+  messages: ModelMessage[] | any[]
+): number {
+  const msgs: any[] = Array.isArray(messages) ? messages : [];
+  let start = msgs.length;
+  while (start > 0 && isToolMessage(msgs[start - 1])) start--;
+  return start;
+}
+
+/**
+ * Resolve the window a strategy may compact, or undefined when it should leave the
+ * conversation as-is.
+ *
+ * By default compaction only runs once the conversation ends with assistant text. With
+ * requireAssistantText set to false it also runs mid-turn, while tool calls are in flight; the
+ * trailing tool-result batch is then kept intact so the model can read the latest results.
+ */
+export function detectStrategyWindow(
+  messages: ModelMessage[] | any[],
+  options: { boundary: Boundary; requireAssistantText?: boolean }
+): { start: number; endExclusive: number } | undefined {
+  const msgs: any[] = Array.isArray(messages) ? messages : [];
+  const lastMessage = msgs[msgs.length - 1];
+  const endsWithAssistantText =
+    lastMessage &&
+    lastMessage.role === "assistant" &&
+    messageHasTextContent(lastMessage);
+  if (!endsWithAssistantText && options.requireAssistantText !== false) {
+    return undefined;
+  }
+
+  const { start, endExclusive } = detectWindowRange(msgs, options.boundary);
+  if (endsWithAssistantText) return { start, endExclusive };
+  return {
+    start,
+    endExclusive: Math.min(endExclusive, detectTrailingToolBatchStart(msgs)),
+  };
+}
+
+/**
+ * Minimum size a tool output must reach before it is compacted. Smaller outputs stay inline.
+ * When both limits are set, an output must reach both to be compacted.
+ */
+export interface CompactionThreshold {
+  /** Minimum serialized size of the output in bytes. */
+  minSizeBytes?: number;
+  /** Minimum estimated token count of the output. */
+  minTokens?: number;
+}
+
+/**
+ * Size thresholds shared by the compaction strategies.
+ */
+export interface ThresholdOptions extends CompactionThreshold {
+  /** Per-tool overrides, merged over the default thresholds. */
+  toolThresholds?: Record<string, CompactionThreshold>;
+}
+
+/**
+ * Determine whether a tool-result part is large enough to be compacted.
+ */
+export function meetsCompactionThreshold(
+  part: any,
+  options: ThresholdOptions
+): boolean {
+  const override =
+    part?.toolName && options.toolThresholds
+      ? options.toolThresholds[part.toolName]
+      : undefined;
+  const minSizeBytes = override?.minSizeBytes ?? options.minSizeBytes;
+  const minTokens = override?.minTokens ?? options.minTokens;
+  if (!minSizeBytes && !minTokens) return true;
+
+  // Serialize only until both thresholds are met, so large outputs are never built whole
+  let serialized = "";
+  let bytes = 0;
+  for (const chunk of serializeJsonChunks(part?.output ?? null)) {
+    serialized += chunk;
+    bytes += Buffer.byteLength(chunk, "utf8");
+    if (
+      (!minSizeBytes || bytes >= minSizeBytes) &&
+      (!minTokens || estimateTokens(serialized) >= minTokens)
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * How compaction treats error outputs (`error-text` / `error-json`), which the model needs to
+ * self-correct.
+ *
+ * - "keep-inline": Leave errors untouched. The default.
+ * - "truncate": Keep errors inline, shortened to ERROR_TRUNCATE_CHARS characters.
+ * - "persist": Compact errors like any other result (persisted, summarized or dropped).
+ */
+export type ErrorPolicy = "keep-inline" | "truncate" | "persist";
+
+/** Number of characters of an error kept inline by the "truncate" error policy. */
+export const ERROR_TRUNCATE_CHARS = 1000;
+
+function isErrorOutput(output: any): boolean {
+  return output?.type === "error-text" || output?.type === "error-json";
+}
+
+/**
+ * Apply the error policy to an error tool-result part. Returns the part to keep in its place,
+ * or undefined when the error should be compacted like any other result.
+ */
+function applyErrorPolicy(
+  part: any,
+  errorPolicy: ErrorPolicy | undefined,
+  strategyName: string
+): any | undefined {
+  const policy = errorPolicy ?? "keep-inline";
+  if (policy === "persist") return undefined;
+  if (policy === "keep-inline" || getCompactionMetadata(part)) return part;
+
+  const text =
+    part.output.type === "error-text"
+      ? String(part.output.value ?? "")
+      : JSON.stringify(part.output.value) ?? "";
+  if (text.length <= ERROR_TRUNCATE_CHARS) return part;
+  return {
+    ...part,
+    output: {
+      type: "error-text",
+      value: `${text.slice(0, ERROR_TRUNCATE_CHARS)}... [truncated ${
+        text.length - ERROR_TRUNCATE_CHARS
+      } characters]`,
+    },
+    providerOptions: withCompactionMetadata(part, {
+      strategy: strategyName,
+      bytes: Buffer.byteLength(JSON.stringify(part.output), "utf8"),
+    }),
+  };
+}
+
+/**
+ * What compaction does with the results of a tool.
+ *
+ * - "keep": Leave results inline.
+ * - "drop": Replace results with a short note, like the drop-tool-results strategy.
+ * - "persist": Write results to storage and reference them, without a summary.
+ * - "summarize": Write results to storage and reference them with a model-written summary.
+ */
+export type ToolPolicyAction = "keep" | "drop" | "persist" | "summarize";
+
+/**
+ * Tool result handed to a policy function.
+ */
+export interface ToolPolicyContext {
+  toolName: string;
+  toolCallId?: string;
+  output: unknown;
+}
+
+/**
+ * Per-tool compaction policy: an action, or a function choosing one for each result.
+ * Functions may return undefined to fall back to the strategy's default handling. An action
+ * other than "keep" applies whatever the size thresholds say.
+ */
+export type ToolPolicy =
+  | ToolPolicyAction
+  | ((
+      context: ToolPolicyContext
+    ) => ToolPolicyAction | undefined | Promise<ToolPolicyAction | undefined>);
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map((char) =>
+      char === "*"
+        ? ".*"
+        : char === "?"
+        ? "."
+        : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    )
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Find the policy for a tool. Keys may be exact tool names or globs (`*` and `?`), e.g.
+ * "mcp__github__*". An exact name wins over globs; among globs the first match in key order wins.
+ */
+export function resolveToolPolicy(
+  toolName: string,
+  policies: Record<string, ToolPolicy> | undefined
+): ToolPolicy | undefined {
+  if (!policies) return undefined;
+  if (Object.prototype.hasOwnProperty.call(policies, toolName)) {
+    return policies[toolName];
+  }
+  for (const [pattern, policy] of Object.entries(policies)) {
+    if (/[*?]/.test(pattern) && globToRegExp(pattern).test(toolName)) {
+      return policy;
+    }
+  }
+  return undefined;
+}
+
+async function resolveToolPolicyAction(
+  part: any,
+  policies: Record<string, ToolPolicy> | undefined
+): Promise<ToolPolicyAction | undefined> {
+  const toolName = part.toolName || "unknown";
+  const policy = resolveToolPolicy(toolName, policies);
+  if (typeof policy !== "function") return policy;
+  return await policy({
+    toolName,
+    toolCallId: part.toolCallId,
+    output: part.output,
+  });
+}
+
+/**
+ * Information available when choosing the file name for a persisted tool result.
+ */
+export interface ToolResultKeyContext {
+  toolName: string;
+  toolCallId?: string;
+  /**
+   * 1-based position of this result among all results of the same tool in the conversation.
+   * Stable across repeated compactions of the same (append-only) history.
+   */
+  seq: number;
+  sessionId: string;
+  /**
+   * Hash of the output and session when deduplication is enabled, and of the bytes and session
+   * for the image and file parts of messages. Identical content of a session shares a hash, so
+   * keys derived from it are content-addressed within the session.
+   */
+  contentHash?: string;
+}
+
+/**
+ * Returns the file name (passed to FileAdapter.resolveKey) for a persisted tool result.
+ */
+export type ToolResultKeyStrategy = (context: ToolResultKeyContext) => string;
+
+/**
+ * Default key strategy: {toolName}-{toolCallId}.json, falling back to {toolName}-{seq}.json
+ * when the result has no toolCallId. With deduplication enabled the key is content-addressed:
+ * {toolName}-{contentHash}.json.
+ */
+export const defaultToolResultKeyStrategy: ToolResultKeyStrategy = ({
+  toolName,
+  toolCallId,
+  seq,
+  contentHash,
+}) => {
+  if (contentHash) return `${toolName}-${contentHash}.json`;
+  const id = toolCallId ? toolCallId.replace(/[^A-Za-z0-9_.-]/g, "_") : seq;
+  return `${toolName}-${id}.json`;
+};
+
+/**
+ * Short content hash of a tool output, used to deduplicate identical outputs. With a session ID
+ * the hash is scoped to that session, so sessions never share a stored file.
+ */
+export function hashToolOutput(output: unknown, sessionId?: string): string {
+  // Hashed chunk by chunk: same digest as hashing JSON.stringify(output), without the string
+  const hash = createHash("sha256");
+  if (sessionId !== undefined) hash.update(`${JSON.stringify(sessionId)}\n`);
+  for (const chunk of batchChunks(serializeJsonChunks(output))) {
+    hash.update(chunk);
+  }
+  return hash.digest("hex").slice(0, 16);
+}
+
+/**
+ * Short content hash of media bytes, scoped to the session like hashToolOutput. Names message
+ * media, which has no toolCallId to tell two conversations' images apart.
+ */
+function hashMediaBytes(bytes: Uint8Array, sessionId: string): string {
+  return createHash("sha256")
+    .update(`${JSON.stringify(sessionId)}\n`)
+    .update(bytes)
+    .digest("hex")
+    .slice(0, 16);
+}
+
 /**
  * Options for the write-tool-results-to-file compaction strategy.
  */
-export interface WriteToolResultsToFileOptions {
+export interface WriteToolResultsToFileOptions extends ThresholdOptions {
   /** Where to start compacting from in the message list. */
   boundary: Boundary;
   /** File adapter used to resolve keys and write content. */
   adapter: FileAdapter;
-  /** Converts tool outputs into strings before writing. Defaults to JSON.stringify. */
-  toolResultSerializer: (value: unknown) => string;
+  /**
+   * Serializes the persisted record (metadata + output) of files written in the "json" format.
+   * Defaults to JSON.stringify(value, null, 2).
+   */
+  toolResultSerializer?: (value: unknown) => string;
+  /** Format of persisted files. Defaults to "json". See PersistedFormat. */
+  format?: PersistedFormat;
+  /** Per-tool formats, overriding `format` for the named tools. */
+  toolFormats?: Record<string, PersistedFormat>;
   /**
    * Names of tools that READ from previously written storage (e.g., read/search tools).
    * Their results will NOT be re-written; instead a friendly reference to the source is shown.
    * Provide custom names for your own reader/search tools.
    */
   fileReaderTools?: string[];
+  /**
+   * Re-run hints for reader tools, keyed by tool name. The hint rendered from the tool-call input
+   * replaces the result so the model can re-issue the exact call. Tools listed here are treated
+   * as reader tools.
+   */
+  fileReaderHints?: Record<string, FileReaderHint>;
   /**
    * Optional session ID to organize persisted tool results.
-   * Files will be organized as: {baseDir}/{sessionId}/tool-results/{toolName}-{seq}.json
+   * Files will be organized as: {baseDir}/{sessionId}/tool-results/{toolName}-{toolCallId}.json
    */
   sessionId?: string;
+  /**
+   * Chooses the file name for each persisted result. Defaults to defaultToolResultKeyStrategy.
+   */
+  keyStrategy?: ToolResultKeyStrategy;
+  /**
+   * Optional summarizer. When provided, its summary is appended to the file reference.
+   */
+  summarize?: (context: ToolResultSummaryContext) => Promise<string>;
+  /**
+   * Include a structural preview (stats, keys, shape, head) in the file reference.
+   * Disabled by default.
+   */
+  preview?: boolean | PreviewOptions;
+  /** Per-tool preview settings, overriding `preview` for the named tools. */
+  toolPreviews?: Record<string, boolean | PreviewOptions>;
+  /**
+   * Also offload large assistant tool-call inputs (e.g. code passed to sandbox_exec).
+   * Pass true to offload inputs of at least DEFAULT_TOOL_CALL_INPUT_MIN_BYTES, or a threshold.
+   * Disabled by default.
+   */
+  compactToolCallInputs?: boolean | CompactionThreshold;
+  /**
+   * Also offload inline media: `media` items of `content` tool outputs and `image`/`file` parts
+   * of user and assistant messages. The bytes are written with their media type and replaced by
+   * a text reference. Pass true to offload all inline media, or a minimum size in bytes.
+   * Disabled by default.
+   */
+  compactMedia?: boolean | { minSizeBytes?: number };
+  /**
+   * Write JSON and NDJSON files through FileAdapter.openWriteStream, serializing them
+   * incrementally instead of building the whole file in memory. Adapters without
+   * openWriteStream use the regular write. Streamed JSON uses the default layout rather than
+   * toolResultSerializer.
+   * - true or "json": stream files in the configured format
+   * - "ndjson": also default `format` to "ndjson", so array outputs are written one item per
+   *   line after a metadata line
+   * Disabled by default.
+   */
+  streaming?: boolean | "json" | "ndjson";
+  /**
+   * Store identical outputs of a session once under a content-addressed key. Later occurrences
+   * are replaced by a short reference to the first call with that output. Disabled by default.
+   */
+  deduplicate?: boolean;
+  /** How error outputs are treated, reader tools included. Defaults to "keep-inline". */
+  errorPolicy?: ErrorPolicy;
+  /**
+   * Per-tool policies, keyed by tool name or glob. Tools without a policy get the default
+   * handling. See resolveToolPolicy.
+   */
+  policies?: Record<string, ToolPolicy>;
+  /**
+   * What happens to results of tools without a policy. Defaults to "summarize" when `summarize`
+   * is set, otherwise "persist".
+   */
+  defaultAction?: "persist" | "summarize";
+  /**
+   * Only compact when the conversation ends with assistant text. Defaults to true.
+   * When false, a trailing tool-result batch is kept intact. See detectStrategyWindow.
+   */
+  requireAssistantText?: boolean;
+  /**
+   * Strategy name recorded in the compaction metadata of rewritten parts.
+   * Defaults to "write-tool-results-to-file".
+   */
+  strategyName?: string;
+}
+
+/**
+ * Tool output handed to a summarizer.
+ */
+export interface ToolResultSummaryContext {
+  toolName: string;
+  toolCallId?: string;
+  output: unknown;
 }
 
 export function isToolMessage(msg: any): boolean {
   return msg && msg.role === "tool" && Array.isArray(msg.content);
 }
 
+export function isAssistantMessageWithParts(msg: any): boolean {
+  return msg && msg.role === "assistant" && Array.isArray(msg.content);
+}
+
+/**
+ * Replace a part of msgs[messageIndex] without mutating the caller's objects. The message and
+ * its content array are copied the first time one of their parts changes; untouched messages
+ * and parts stay shared with the original list.
+ */
+function replacePart(
+  msgs: any[],
+  original: readonly any[],
+  messageIndex: number,
+  partIndex: number,
+  part: any
+): void {
+  if (msgs[messageIndex] === original[messageIndex]) {
+    msgs[messageIndex] = {
+      ...original[messageIndex],
+      content: [...original[messageIndex].content],
+    };
+  }
+  msgs[messageIndex].content[partIndex] = part;
+}
+
+/** Minimum tool-call input size offloaded when toolCallInputs is true. */
+export const DEFAULT_TOOL_CALL_INPUT_MIN_BYTES = 1024;
+
+/**
+ * Persist large tool-call inputs of an assistant message and replace them with a reference.
+ * toolCallId and toolName are kept so calls still pair with their results.
+ */
+async function writeToolCallInputsToFile(
+  msg: any,
+  options: WriteToolResultsToFileOptions,
+  context: {
+    sessionId: string;
+    strategyName: string;
+    seqByPart: Map<any, number>;
+    replace: (partIndex: number, part: any) => void;
+  }
+): Promise<void> {
+  const threshold: CompactionThreshold =
+    typeof options.compactToolCallInputs === "object"
+      ? options.compactToolCallInputs
+      : { minSizeBytes: DEFAULT_TOOL_CALL_INPUT_MIN_BYTES };
+  const keyStrategy = options.keyStrategy ?? defaultToolResultKeyStrategy;
+
+  for (const [j, part] of msg.content.entries()) {
+    if (!part || part.type !== "tool-call" || part.input === undefined) {
+      continue;
+    }
+    if (getCompactionMetadata(part)) continue;
+    // Thresholds measure `output`, so present the input in that position
+    if (!meetsCompactionThreshold({ output: part.input }, threshold)) continue;
+
+    const toolName = part.toolName || "unknown";
+    const fileName = keyStrategy({
+      toolName: `${toolName}-input`,
+      toolCallId: part.toolCallId,
+      seq: context.seqByPart.get(part) ?? 1,
+      sessionId: context.sessionId,
+    });
+    const persisted: PersistedToolResult = {
+      metadata: {
+        toolName,
+        timestamp: new Date().toISOString(),
+        toolCallId: part.toolCallId || randomUUID(),
+        sessionId: context.sessionId,
+        source: "tool-call-input",
+      },
+      output: part.input,
+    };
+
+    const key = options.adapter.resolveKey(fileName);
+    await options.adapter.write({
+      key,
+      body: JSON.stringify(persisted, null, 2),
+      contentType: "application/json",
+      metadata: persisted.metadata,
+    });
+    const bytes = Buffer.byteLength(JSON.stringify(part.input) ?? "", "utf8");
+
+    context.replace(j, {
+      ...part,
+      input: {
+        compactedInput: `Written to file: ${formatStoragePathForDisplay(
+          options.adapter.toString(),
+          key
+        )}. To read it, use: sandbox_cat({ file: "${key}" })`,
+      },
+      providerOptions: withCompactionMetadata(part, {
+        strategy: context.strategyName,
+        key,
+        bytes,
+      }),
+    });
+  }
+}
+
+/**
+ * Write inline media bytes to storage under `${baseName}.{ext}`, where baseName is derived from
+ * the decoded bytes. The bytes carry no metadata of their own, so the write passes the owning
+ * session and tool for the adapter to store. Returns undefined for media that isn't inline
+ * (URLs) or is below the compactMedia size threshold.
+ */
+async function writeMediaToFile(
+  data: unknown,
+  mediaType: string | undefined,
+  baseName: (bytes: Uint8Array) => string,
+  metadata: FileWriteMetadata,
+  options: WriteToolResultsToFileOptions
+): Promise<MediaReference | undefined> {
+  const decoded = decodeMediaData(data);
+  if (!decoded) return undefined;
+  const minSizeBytes =
+    typeof options.compactMedia === "object"
+      ? options.compactMedia.minSizeBytes ?? 0
+      : 0;
+  if (decoded.bytes.byteLength < minSizeBytes) return undefined;
+
+  const resolvedType =
+    mediaType ??
+    decoded.mediaType ??
+    detectImageMediaType(decoded.bytes) ??
+    "application/octet-stream";
+  const key = options.adapter.resolveKey(
+    `${baseName(decoded.bytes)}.${extensionForMediaType(resolvedType)}`
+  );
+  await options.adapter.write({
+    key,
+    body: decoded.bytes,
+    contentType: resolvedType,
+    metadata,
+  });
+  const dimensions = resolvedType.startsWith("image/")
+    ? readImageDimensions(decoded.bytes)
+    : undefined;
+  return {
+    key,
+    mediaType: resolvedType,
+    bytes: decoded.bytes.byteLength,
+    ...dimensions,
+  };
+}
+
+function describeMedia(
+  reference: MediaReference,
+  adapter: FileAdapter,
+  filename?: string
+): string {
+  const label = reference.mediaType.startsWith("image/")
+    ? "Image"
+    : filename
+    ? `File ${filename}`
+    : "File";
+  const details = [
+    reference.mediaType,
+    reference.width !== undefined
+      ? `${reference.width}x${reference.height}`
+      : undefined,
+    `${reference.bytes} bytes`,
+  ].filter(Boolean);
+  return `${label} (${details.join(
+    ", "
+  )}) written to file: ${formatStoragePathForDisplay(
+    adapter.toString(),
+    reference.key
+  )}`;
+}
+
+// Key strategies name JSON files; media files reuse the name with their own extension
+function mediaBaseName(fileName: string): string {
+  return fileName.replace(/\.json$/, "");
+}
+
+/**
+ * Persist the `media` items of a `content` tool output and replace each with a text reference.
+ * Returns undefined when the output has no inline media to offload.
+ */
+async function writeContentMediaToFile(
+  part: any,
+  options: WriteToolResultsToFileOptions,
+  context: { sessionId: string; strategyName: string; seq: number }
+): Promise<any | undefined> {
+  const items: any[] = Array.isArray(part.output?.value)
+    ? part.output.value
+    : [];
+  const baseName = mediaBaseName(
+    (options.keyStrategy ?? defaultToolResultKeyStrategy)({
+      toolName: part.toolName || "unknown",
+      toolCallId: part.toolCallId,
+      seq: context.seq,
+      sessionId: context.sessionId,
+    })
+  );
+
+  const media: MediaReference[] = [];
+  const value: any[] = [];
+  for (const item of items) {
+    const reference =
+      item?.type === "media"
+        ? await writeMediaToFile(
+            item.data,
+            item.mediaType,
+            () => `${baseName}-media-${media.length + 1}`,
+            {
+              sessionId: context.sessionId,
+              toolName: part.toolName || "unknown",
+              toolCallId: part.toolCallId,
+              timestamp: new Date().toISOString(),
+            },
+            options
+          )
+        : undefined;
+    if (!reference) {
+      value.push(item);
+      continue;
+    }
+    media.push(reference);
+    value.push({
+      type: "text",
+      text: describeMedia(reference, options.adapter),
+    });
+  }
+  if (media.length === 0) return undefined;
+
+  return {
+    ...part,
+    output: { ...part.output, value },
+    providerOptions: withCompactionMetadata(part, {
+      strategy: context.strategyName,
+      bytes: Buffer.byteLength(JSON.stringify(part.output), "utf8"),
+      media,
+    }),
+  };
+}
+
+/**
+ * Persist inline `image` and `file` parts of a user or assistant message and replace each with a
+ * text part referencing the stored file.
+ */
+async function writeMessageMediaToFile(
+  msg: any,
+  options: WriteToolResultsToFileOptions,
+  context: {
+    sessionId: string;
+    strategyName: string;
+    seqByPart: Map<any, number>;
+    replace: (partIndex: number, part: any) => void;
+  }
+): Promise<void> {
+  const keyStrategy = options.keyStrategy ?? defaultToolResultKeyStrategy;
+
+  for (const [j, part] of msg.content.entries()) {
+    if (!part || (part.type !== "image" && part.type !== "file")) continue;
+    const data = part.type === "image" ? part.image : part.data;
+    // Content-addressed per session: message parts have no toolCallId, and a sequence number
+    // alone would collide with other conversations written to the same storage
+    const baseName = (bytes: Uint8Array) =>
+      mediaBaseName(
+        keyStrategy({
+          toolName: `${msg.role}-${part.type}`,
+          seq: context.seqByPart.get(part) ?? 1,
+          sessionId: context.sessionId,
+          contentHash: hashMediaBytes(bytes, context.sessionId),
+        })
+      );
+    const reference = await writeMediaToFile(
+      data,
+      part.mediaType,
+      baseName,
+      {
+        sessionId: context.sessionId,
+        toolName: `${msg.role}-${part.type}`,
+        timestamp: new Date().toISOString(),
+      },
+      options
+    );
+    if (!reference) continue;
+
+    const { key, ...details } = reference;
+    context.replace(j, {
+      type: "text",
+      text: describeMedia(reference, options.adapter, part.filename),
+      providerOptions: withCompactionMetadata(part, {
+        strategy: context.strategyName,
+        key,
+        ...details,
+      }),
+    });
+  }
+}
+
+/**
+ * Write a persisted tool result to storage in the configured format and return its key and
+ * the format used. JSON and NDJSON go through the adapter's write stream when streaming is
+ * enabled and supported; the size of the streamed file is then returned as well.
+ */
+async function writePersistedToolResult(
+  persisted: PersistedToolResult,
+  fileName: string,
+  options: WriteToolResultsToFileOptions
+): Promise<{ key: string; format: PersistedFormat; bytes?: number }> {
+  const { adapter } = options;
+  const requested =
+    options.toolFormats?.[persisted.metadata.toolName] ??
+    options.format ??
+    (options.streaming === "ndjson" ? "ndjson" : "json");
+  const format = resolvePersistedFormat(requested, persisted.output);
+  const key = adapter.resolveKey(withFormatExtension(fileName, format));
+  const { contentType } = PERSISTED_FORMAT_FILE_TYPES[format];
+
+  if (
+    options.streaming &&
+    adapter.openWriteStream &&
+    (format === "json" || format === "ndjson")
+  ) {
+    const stream = await adapter.openWriteStream({
+      key,
+      contentType,
+      metadata: persisted.metadata,
+    });
+    const bytes = await writeChunksToStream(
+      stream,
+      format === "ndjson"
+        ? serializeNdjsonChunks(persistedNdjsonRecords(persisted))
+        : serializeJsonChunks(persisted, 2)
+    );
+    return { key, format, bytes };
+  }
+
+  await adapter.write({
+    key,
+    body: serializePersistedToolResult(
+      persisted,
+      format,
+      options.toolResultSerializer ??
+        ((value) => JSON.stringify(value, null, 2))
+    ),
+    contentType,
+    metadata: persisted.metadata,
+  });
+  return { key, format };
+}
+
+/**
+ * Map the content hashes recorded on previously persisted tool results to their storage key and
+ * call, so deduplication also spans earlier compaction runs.
+ */
+function collectPersistedHashes(
+  messages: any[]
+): Map<string, { key: string; toolCallId?: string }> {
+  const byHash = new Map<string, { key: string; toolCallId?: string }>();
+  for (const msg of messages) {
+    if (!isToolMessage(msg)) continue;
+    for (const part of msg.content) {
+      const metadata = getCompactionMetadata(part);
+      if (!metadata?.contentHash || !metadata.key) continue;
+      if (byHash.has(metadata.contentHash)) continue;
+      byHash.set(metadata.contentHash, {
+        key: metadata.key,
+        toolCallId: part.toolCallId,
+      });
+    }
+  }
+  return byHash;
+}
+
+/**
+ * Look back from messages[messageIndex] for the assistant tool call with the given id and
+ * return its input.
+ */
+function findToolCallInput(
+  messages: readonly any[],
+  messageIndex: number,
+  toolCallId: string | undefined
+): any {
+  for (let i = messageIndex - 1; i >= 0; i--) {
+    if (!isAssistantMessageWithParts(messages[i])) continue;
+    const toolCall = messages[i].content.find(
+      (item: any) => item.type === "tool-call" && item.toolCallId === toolCallId
+    );
+    if (toolCall?.input) return toolCall.input;
+  }
+  return undefined;
+}
+
+/**
+ * Number every tool-result (and tool-call) part by its position among parts of the same tool,
+ * counting the whole conversation so numbering doesn't depend on the compaction window.
+ * Image and file parts are numbered per role and part type.
+ */
+function numberToolResultsByTool(messages: any[]): Map<any, number> {
+  const counts = new Map<string, number>();
+  const seqByPart = new Map<any, number>();
+  for (const msg of messages) {
+    if (!Array.isArray(msg?.content)) continue;
+    for (const part of msg.content) {
+      if (!part) continue;
+      const isMedia = part.type === "image" || part.type === "file";
+      if (
+        !isMedia &&
+        part.type !== "tool-result" &&
+        part.type !== "tool-call"
+      ) {
+        continue;
+      }
+      // Calls and results are numbered separately
+      const counter = isMedia
+        ? `${msg.role}-${part.type}`
+        : `${part.type}:${part.toolName || "unknown"}`;
+      const seq = (counts.get(counter) ?? 0) + 1;
+      counts.set(counter, seq);
+      seqByPart.set(part, seq);
+    }
+  }
+  return seqByPart;
+}
+
 /**
  * Compaction strategy that writes tool-result payloads to storage and replaces their in-line
  * content with a concise reference to the persisted location.
@@ -183,64 +1041,123 @@ export async function writeToolResultsToFileStrategy(
 ): Promise<ModelMessage[]> {
   const msgs = Array.isArray(messages) ? [...messages] : [];
 
-  const lastMessage = msgs[msgs.length - 1] as any;
-  const endsWithAssistantText =
-    lastMessage &&
-    lastMessage.role === "assistant" &&
-    messageHasTextContent(lastMessage);
-  if (!endsWithAssistantText) return msgs;
-
-  const { start: windowStart, endExclusive } = detectWindowRange(
-    msgs,
-    options.boundary
-  );
+  const window = detectStrategyWindow(msgs, options);
+  if (!window) return msgs;
+  const { start: windowStart, endExclusive } = window;
 
   const sessionId = options.sessionId ?? `session-${randomUUID().slice(0, 8)}`;
+  const keyStrategy = options.keyStrategy ?? defaultToolResultKeyStrategy;
+  const strategyName = options.strategyName ?? "write-tool-results-to-file";
+  const seqByPart = numberToolResultsByTool(msgs);
+  const persistedByHash = options.deduplicate
+    ? collectPersistedHashes(msgs)
+    : new Map<string, { key: string; toolCallId?: string }>();
 
   for (let i = windowStart; i < Math.min(endExclusive, msgs.length - 1); i++) {
     const msg: any = msgs[i];
+    const replace = (j: number, part: any) =>
+      replacePart(msgs, messages, i, j, part);
+    if (
+      options.compactMedia &&
+      (msg?.role === "user" || msg?.role === "assistant") &&
+      Array.isArray(msg.content)
+    ) {
+      await writeMessageMediaToFile(msg, options, {
+        sessionId,
+        strategyName,
+        seqByPart,
+        replace,
+      });
+    }
+    if (options.compactToolCallInputs && isAssistantMessageWithParts(msg)) {
+      await writeToolCallInputsToFile(msg, options, {
+        sessionId,
+        strategyName,
+        seqByPart,
+        replace,
+      });
+      continue;
+    }
     if (!isToolMessage(msg)) continue;
 
-    for (const part of msg.content) {
+    for (const [j, part] of msg.content.entries()) {
       if (!part || part.type !== "tool-result" || !part.output) continue;
+      // Skip if this is already a reference (previously compacted)
+      if (isCompactedPart(part)) continue;
+
+      if (isErrorOutput(part.output)) {
+        const kept = applyErrorPolicy(part, options.errorPolicy, strategyName);
+        if (kept) {
+          if (kept !== part) replace(j, kept);
+          continue;
+        }
+      }
+
+      const action = await resolveToolPolicyAction(part, options.policies);
+      if (action === "keep") continue;
+      if (action === "summarize" && !options.summarize) {
+        throw new Error(
+          `The "summarize" policy for tool "${part.toolName}" requires the summaryModel option.`
+        );
+      }
+
+      // Media is offloaded as binary files; the remaining text items stay inline
+      if (
+        options.compactMedia &&
+        action !== "drop" &&
+        part.output.type === "content"
+      ) {
+        const offloaded = await writeContentMediaToFile(part, options, {
+          sessionId,
+          strategyName,
+          seq: seqByPart.get(part) ?? 1,
+        });
+        if (offloaded) {
+          replace(j, offloaded);
+          continue;
+        }
+      }
+      // Small outputs are cheaper inline than as a file reference, unless a policy says otherwise
+      if (!action && !meetsCompactionThreshold(part, options)) continue;
+
+      if (action === "drop") {
+        replace(j, dropToolResultPart(part));
+        continue;
+      }
 
       // Reference-only behavior for tools that read/search storage
       // These tools can be re-run to get the same results, so we don't persist their output
-      const fileReaderSet = new Set(options.fileReaderTools ?? []);
-      if (part.toolName && fileReaderSet.has(part.toolName)) {
+      const readerHints = options.fileReaderHints ?? {};
+      const fileReaderSet = new Set([
+        ...(options.fileReaderTools ?? []),
+        ...Object.keys(readerHints),
+      ]);
+      if (!action && part.toolName && fileReaderSet.has(part.toolName)) {
         // Find the corresponding tool call from the previous assistant message
-        let filePath: string | undefined;
-
-        // Look back to find the assistant message with the matching tool call
-        for (let j = i - 1; j >= 0; j--) {
-          const assistantMsg: any = msgs[j];
-          if (
-            assistantMsg?.role === "assistant" &&
-            Array.isArray(assistantMsg.content)
-          ) {
-            const toolCall = assistantMsg.content.find(
-              (item: any) =>
-                item.type === "tool-call" && item.toolCallId === part.toolCallId
-            );
-            if (toolCall?.input) {
-              // Extract file path from input - try common parameter names
-              filePath =
-                toolCall.input.file ||
-                toolCall.input.path ||
-                toolCall.input.query;
-              break;
-            }
-          }
+        const input = findToolCallInput(messages, i, part.toolCallId);
+        const hint = input ? readerHints[part.toolName]?.(input) : undefined;
+
+        let display: string;
+        if (hint) {
+          display = `Reference-only result. To read it again, use: ${hint}`;
+        } else {
+          // Extract file path from input - try common parameter names
+          const filePath = input?.file || input?.path || input?.query;
+          display = filePath
+            ? `Read from file: ${filePath}`
+            : `Read from storage (tool: ${part.toolName})`;
         }
 
-        const display = filePath
-          ? `Read from file: ${filePath}`
-          : `Read from storage (tool: ${part.toolName})`;
-
-        part.output = {
-          type: "text",
-          value: display,
-        };
+        replace(j, {
+          ...part,
+          output: {
+            type: "text",
+            value: display,
+          },
+          providerOptions: withCompactionMetadata(part, {
+            strategy: strategyName,
+          }),
+        });
 
         // No need to register - files are read directly when they exist
         continue;
@@ -255,39 +1172,59 @@ export async function writeToolResultsToFileStrategy(
       } else if (
         output &&
         output.type === "text" &&
-        typeof output.text === "string"
+        typeof output.value === "string"
       ) {
-        outputValue = output.text;
+        outputValue = output.value;
       } else {
         outputValue = output;
       }
 
       if (!outputValue) continue;
 
-      // Skip if this is already a reference (previously compacted)
-      if (typeof outputValue === "string") {
-        if (
-          outputValue.startsWith("Written to file:") ||
-          outputValue.startsWith("Read from file:")
-        ) {
-          continue;
-        }
-      } else if (
-        output &&
-        output.type === "text" &&
-        typeof output.value === "string"
-      ) {
-        if (
-          output.value.startsWith("Written to file:") ||
-          output.value.startsWith("Read from file:")
-        ) {
-          continue;
-        }
+      const toolName = part.toolName || "unknown";
+      // Streamed outputs are never serialized whole; their size comes from the write instead
+      const outputBytes = () =>
+        options.streaming
+          ? jsonByteLength(output)
+          : Buffer.byteLength(JSON.stringify(output) ?? "", "utf8");
+      const contentHash = options.deduplicate
+        ? hashToolOutput(output, sessionId)
+        : undefined;
+
+      // Identical output already stored: point at the first call instead of writing it again
+      const duplicateOf = contentHash
+        ? persistedByHash.get(contentHash)
+        : undefined;
+      if (contentHash && duplicateOf) {
+        replace(j, {
+          ...part,
+          output: {
+            type: "text",
+            value: `Same as result of call ${
+              duplicateOf.toolCallId ?? "(unknown)"
+            }, written to file: ${formatStoragePathForDisplay(
+              options.adapter.toString(),
+              duplicateOf.key
+            )}. To read it, use: sandbox_cat({ file: "${duplicateOf.key}" })`,
+          },
+          providerOptions: withCompactionMetadata(part, {
+            strategy: strategyName,
+            key: duplicateOf.key,
+            bytes: outputBytes(),
+            contentHash,
+          }),
+        });
+        continue;
       }
 
-      // Generate file name based on tool name (one file per tool, overwritten on subsequent calls)
-      const toolName = part.toolName || "unknown";
-      const fileName = `${toolName}.json`;
+      // Generate a per-call file name so repeated calls of a tool don't overwrite each other
+      const fileName = keyStrategy({
+        toolName,
+        toolCallId: part.toolCallId,
+        seq: seqByPart.get(part) ?? 1,
+        sessionId,
+        contentHash,
+      });
 
       // Wrap output with metadata
       const persistedResult: PersistedToolResult = {
@@ -296,37 +1233,180 @@ export async function writeToolResultsToFileStrategy(
           timestamp: new Date().toISOString(),
           toolCallId: part.toolCallId || randomUUID(),
           sessionId,
+          outputType: output?.type,
         },
         output: outputValue,
       };
 
-      const key = options.adapter.resolveKey(fileName);
-      await options.adapter.write({
-        key,
-        body: JSON.stringify(persistedResult, null, 2),
-        contentType: "application/json",
-      });
+      const written = await writePersistedToolResult(
+        persistedResult,
+        fileName,
+        options
+      );
+      const { key, format } = written;
+      const bytes = written.bytes ?? outputBytes();
+      if (contentHash) {
+        persistedByHash.set(contentHash, { key, toolCallId: part.toolCallId });
+      }
 
       const adapterUri = options.adapter.toString();
 
-      part.output = {
-        type: "text",
-        value: `Written to file: ${formatStoragePathForDisplay(
-          adapterUri,
-          key
-        )}. To read it, use: sandbox_cat({ file: "${key}" })`,
-      };
+      // Keep the reference first so the placeholder is still recognized as compacted
+      const shouldSummarize =
+        (action ??
+          options.defaultAction ??
+          (options.summarize ? "summarize" : "persist")) === "summarize";
+      const summary =
+        shouldSummarize && options.summarize
+          ? await options.summarize({
+              toolName,
+              toolCallId: part.toolCallId,
+              output: outputValue,
+            })
+          : undefined;
+
+      const previewSetting =
+        options.toolPreviews?.[toolName] ?? options.preview ?? false;
+      const preview = previewSetting
+        ? buildPreview(
+            outputValue,
+            typeof previewSetting === "object" ? previewSetting : {}
+          )
+        : undefined;
+
+      replacePart(msgs, messages, i, j, {
+        ...part,
+        output: {
+          type: "text",
+          value: `Written to file: ${formatStoragePathForDisplay(
+            adapterUri,
+            key
+          )}. To read it, use: sandbox_cat({ file: "${key}" })${
+            summary ? `\nSummary: ${summary}` : ""
+          }${preview ? `\n${preview}` : ""}`,
+        },
+        providerOptions: withCompactionMetadata(part, {
+          strategy: strategyName,
+          key,
+          bytes,
+          contentHash,
+          format: format === "json" ? undefined : format,
+        }),
+      });
     }
   }
 
   return msgs;
 }
 
+/**
+ * Options for the summarize-tool-results compaction strategy.
+ */
+export interface SummarizeToolResultsOptions
+  extends Omit<WriteToolResultsToFileOptions, "summarize"> {
+  /** Model used to write the summaries. */
+  model: LanguageModel;
+  /** Instructions given to the model. Defaults to DEFAULT_SUMMARY_INSTRUCTIONS. */
+  instructions?: string;
+  /** Upper bound on the length of each summary. Defaults to 300 tokens. */
+  maxOutputTokens?: number;
+}
+
+export const DEFAULT_SUMMARY_INSTRUCTIONS =
+  "You summarize tool outputs for an AI agent whose context is limited. " +
+  "Write a short, factual summary of the output: what it contains, key values, counts and identifiers. " +
+  "Do not speculate and do not add commentary.";
+
+// Largest slice of a serialized tool output sent to the summarizer model
+const MAX_SUMMARY_INPUT_CHARS = 50_000;
+
+/**
+ * Create a summarizer that asks a model for a short summary of a tool output.
+ */
+export function createToolResultSummarizer(options: {
+  model: LanguageModel;
+  instructions?: string;
+  maxOutputTokens?: number;
+}): (context: ToolResultSummaryContext) => Promise<string> {
+  const { model, instructions, maxOutputTokens } = options;
+  return async ({ toolName, output }) => {
+    let serialized = typeof output === "string" ? output : "";
+    if (typeof output !== "string") {
+      // Only the head is sent, so stop serializing once it is long enough
+      for (const chunk of serializeJsonChunks(output, 2)) {
+        serialized += chunk;
+        if (serialized.length > MAX_SUMMARY_INPUT_CHARS) break;
+      }
+    }
+    const truncated = serialized.length > MAX_SUMMARY_INPUT_CHARS;
+    const { text } = await generateText({
+      model,
+      system: instructions ?? DEFAULT_SUMMARY_INSTRUCTIONS,
+      prompt: `Tool: ${toolName}\nOutput${
+        truncated ? " (truncated)" : ""
+      }:\n${serialized.slice(0, MAX_SUMMARY_INPUT_CHARS)}`,
+      maxOutputTokens: maxOutputTokens ?? 300,
+    });
+    return text.trim();
+  };
+}
+
+/**
+ * Compaction strategy that persists tool-result payloads like write-tool-results-to-file and
+ * replaces them with a model-written summary plus the file reference.
+ */
+export async function summarizeToolResultsStrategy(
+  messages: ModelMessage[],
+  options: SummarizeToolResultsOptions
+): Promise<ModelMessage[]> {
+  const { model, instructions, maxOutputTokens, ...writeOptions } = options;
+
+  return await writeToolResultsToFileStrategy(messages, {
+    strategyName: "summarize-tool-results",
+    ...writeOptions,
+    summarize: createToolResultSummarizer({
+      model,
+      instructions,
+      maxOutputTokens,
+    }),
+  });
+}
+
 /**
  * Options for the drop-tool-results compaction strategy.
  */
-export interface DropToolResultsOptions {
+export interface DropToolResultsOptions extends ThresholdOptions {
   boundary: Boundary;
+  /** How error outputs are treated. Defaults to "keep-inline". */
+  errorPolicy?: ErrorPolicy;
+  /**
+   * Per-tool policies, keyed by tool name or glob. Only "keep" and "drop" apply without
+   * storage. See resolveToolPolicy.
+   */
+  policies?: Record<string, ToolPolicy>;
+  /**
+   * Only compact when the conversation ends with assistant text. Defaults to true.
+   * When false, a trailing tool-result batch is kept intact. See detectStrategyWindow.
+   */
+  requireAssistantText?: boolean;
+}
+
+/**
+ * Drop the tool output - remove the output data but keep the tool result structure.
+ */
+function dropToolResultPart(part: any): any {
+  const bytes = Buffer.byteLength(JSON.stringify(part.output) ?? "", "utf8");
+  return {
+    ...part,
+    output: {
+      type: "text",
+      value: `Results dropped for tool: ${part.toolName} to preserve context`,
+    },
+    providerOptions: withCompactionMetadata(part, {
+      strategy: "drop-tool-results",
+      bytes,
+    }),
+  };
 }
 
 /**
@@ -338,30 +1418,40 @@ export async function dropToolResultsStrategy(
 ): Promise<ModelMessage[]> {
   const msgs = Array.isArray(messages) ? [...messages] : [];
 
-  const lastMessage = msgs[msgs.length - 1] as any;
-  const endsWithAssistantText =
-    lastMessage &&
-    lastMessage.role === "assistant" &&
-    messageHasTextContent(lastMessage);
-  if (!endsWithAssistantText) return msgs;
-
-  const { start: windowStart, endExclusive } = detectWindowRange(
-    msgs,
-    options.boundary
-  );
+  const window = detectStrategyWindow(msgs, options);
+  if (!window) return msgs;
+  const { start: windowStart, endExclusive } = window;
 
   for (let i = windowStart; i < Math.min(endExclusive, msgs.length - 1); i++) {
     const msg: any = msgs[i];
     if (!isToolMessage(msg)) continue;
 
-    for (const part of msg.content) {
+    for (const [j, part] of msg.content.entries()) {
       if (!part || part.type !== "tool-result" || !part.output) continue;
+      if (getCompactionMetadata(part)?.strategy === "drop-tool-results") {
+        continue;
+      }
+      if (isErrorOutput(part.output)) {
+        const kept = applyErrorPolicy(
+          part,
+          options.errorPolicy,
+          "drop-tool-results"
+        );
+        if (kept) {
+          if (kept !== part) replacePart(msgs, messages, i, j, kept);
+          continue;
+        }
+      }
+      const action = await resolveToolPolicyAction(part, options.policies);
+      if (action === "keep") continue;
+      if (action === "persist" || action === "summarize") {
+        throw new Error(
+          `The "${action}" policy for tool "${part.toolName}" requires a strategy with storage.`
+        );
+      }
+      if (!action && !meetsCompactionThreshold(part, options)) continue;
 
-      // Drop the tool output - remove the output data but keep the tool result structure
-      part.output = {
-        type: "text",
-        value: `Results dropped for tool: ${part.toolName} to preserve context`,
-      };
+      replacePart(msgs, messages, i, j, dropToolResultPart(part));
     }
   }
 
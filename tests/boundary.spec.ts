@@ -1,38 +1,6 @@
 import type { ModelMessage } from "ai";
 import assert from "node:assert/strict";
-import {
-  compact,
-  type Boundary,
-  type FileAdapter,
-  type FileWriteParams,
-  type FileWriteResult,
-} from "../src/index";
-
-class MemoryFileAdapter implements FileAdapter {
-  public writes: { key: string; body: string; contentType?: string }[] = [];
-  private prefix: string;
-  constructor(prefix = "mem") {
-    this.prefix = prefix;
-  }
-  async write(params: FileWriteParams): Promise<FileWriteResult> {
-    const bodyStr =
-      typeof params.body === "string"
-        ? params.body
-        : new TextDecoder().decode(params.body);
-    this.writes.push({
-      key: params.key,
-      body: bodyStr,
-      contentType: params.contentType,
-    });
-    return { key: params.key };
-  }
-  resolveKey(name: string): string {
-    return `${this.prefix}/${name}`;
-  }
-  toString(): string {
-    return `file:///${this.prefix}`;
-  }
-}
+import { compact, type Boundary, InMemoryFileAdapter } from "../src/index";
 
 function makeConversation(): ModelMessage[] {
   // Larger synthetic conversation with multiple tool results across turns
@@ -47,8 +15,9 @@ function makeConversation(): ModelMessage[] {
       content: [
         {
           type: "tool-call",
+          toolCallId: "call-1",
           toolName: "fetchData",
-          args: { query: "A" },
+          input: { query: "A" },
         },
       ],
     } as any,
@@ -58,6 +27,7 @@ function makeConversation(): ModelMessage[] {
       content: [
         {
           type: "tool-result",
+          toolCallId: "call-1",
           toolName: "fetchData",
           result: "ok",
           output: { type: "json", value: { a: 1 } },
@@ -74,8 +44,9 @@ function makeConversation(): ModelMessage[] {
       content: [
         {
           type: "tool-call",
+          toolCallId: "call-2",
           toolName: "readFile",
-          args: { path: "tmp/data.txt" },
+          input: { path: "tmp/data.txt" },
         },
       ],
     } as any,
@@ -85,6 +56,7 @@ function makeConversation(): ModelMessage[] {
       content: [
         {
           type: "tool-result",
+          toolCallId: "call-2",
           toolName: "readFile",
           result: "ok",
           output: {
@@ -108,8 +80,9 @@ function makeConversation(): ModelMessage[] {
       content: [
         {
           type: "tool-call",
+          toolCallId: "call-3",
           toolName: "fetchData",
-          args: { query: "C" },
+          input: { query: "C" },
         },
       ],
     } as any,
@@ -119,6 +92,7 @@ function makeConversation(): ModelMessage[] {
       content: [
         {
           type: "tool-result",
+          toolCallId: "call-3",
           toolName: "fetchData",
           result: "ok",
           output: { type: "json", value: { c: 3 } },
@@ -131,11 +105,12 @@ function makeConversation(): ModelMessage[] {
 }
 
 async function run(boundary: Boundary) {
-  const adapter = new MemoryFileAdapter("test");
+  const adapter = new InMemoryFileAdapter({ prefix: "test" });
   const messages = makeConversation();
   const compacted = await compact(messages, {
     storage: adapter,
     boundary,
+    fileReaderTools: ["readFile"],
   });
   // eslint-disable-next-line no-console
   console.log("\n=== Boundary PRE ===\n", JSON.stringify(boundary, null, 2));
@@ -148,10 +123,10 @@ async function run(boundary: Boundary) {
   return { compacted, adapter };
 }
 
-async function testSinceLastAssistantOrUserText() {
-  const { compacted, adapter } = await run("all");
-  // Window starts after last user/assistant text (index 9), so only index 11 is compacted.
-  assert.equal(adapter.writes.length, 1);
+async function testKeepFirstNMessages() {
+  const { compacted, adapter } = await run({ type: "keep-first", count: 9 });
+  // Window starts after the first 9 messages (index 9), so only index 11 is compacted.
+  assert.equal((await adapter.list()).length, 1);
   // Index 3 remains JSON (older fetch)
   {
     const t = compacted[3] as any;
@@ -178,7 +153,7 @@ async function testEntireConversation() {
   const { compacted, adapter } = await run("all");
   // All tool results before final assistant are processed: indices 3(fetchData),7(readFile),11(fetchData)
   // Only the two fetchData results are written; readFile is reference-only.
-  assert.equal(adapter.writes.length, 2);
+  assert.equal((await adapter.list()).length, 2);
   // Index 2 written
   {
     const t = compacted[3] as any;
@@ -210,7 +185,7 @@ async function testFirstNMessages() {
     count: 3,
   });
   // One write expected: index 3 (fetchData). Index 7 (readFile) becomes reference. Index 11 is preserved.
-  assert.equal(adapter.writes.length, 1);
+  assert.equal((await adapter.list()).length, 1);
   // Index 2 is written (text)
   {
     const t = compacted[3] as any;
@@ -234,7 +209,7 @@ async function testFirstNMessages() {
 }
 
 (async () => {
-  await testSinceLastAssistantOrUserText();
+  await testKeepFirstNMessages();
   await testEntireConversation();
   await testFirstNMessages();
   // eslint-disable-next-line no-console
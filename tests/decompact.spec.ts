@@ -0,0 +1,88 @@
+import type { ModelMessage } from "ai";
+import assert from "node:assert/strict";
+import { compact, decompact, InMemoryFileAdapter } from "../src/index";
+
+function makeConversation(): ModelMessage[] {
+  return [
+    { role: "user", content: "Fetch" },
+    {
+      role: "tool",
+      content: [
+        {
+          type: "tool-result",
+          toolCallId: "call-1",
+          toolName: "fetchData",
+          output: { type: "json", value: { rows: [1, 2, 3] } },
+        },
+        {
+          type: "tool-result",
+          toolCallId: "call-2",
+          toolName: "readme",
+          output: { type: "text", value: "# Title\nBody" },
+        },
+      ],
+    },
+    { role: "assistant", content: "Done" },
+  ];
+}
+
+async function testRoundTrip() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  const original = makeConversation();
+  const compacted = await compact(makeConversation(), { storage: adapter });
+  assert.notDeepEqual(compacted, original);
+
+  const restored = await decompact(compacted, { storage: adapter });
+  assert.deepEqual(restored, original);
+}
+
+async function testSelectedCallsAndMissingFiles() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  const compacted = await compact(makeConversation(), { storage: adapter });
+
+  const partial = await decompact(compacted, {
+    storage: adapter,
+    toolCallIds: ["call-2"],
+  });
+  const [first, second] = (partial[1] as any).content;
+  assert.match(first.output.value, /^Written to file:/);
+  assert.deepEqual(second.output, { type: "text", value: "# Title\nBody" });
+
+  for (const key of await adapter.list()) await adapter.delete(key);
+  const missing = await decompact(compacted, { storage: adapter });
+  assert.deepEqual(missing, compacted);
+}
+
+async function testStructuredMetadata() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  const compacted = await compact(makeConversation(), { storage: adapter });
+  const part = (compacted[1] as any).content[0];
+  assert.deepEqual(part.providerOptions.ctxZip, {
+    compacted: true,
+    strategy: "write-tool-results-to-file",
+    key: "mem/fetchData-call-1.json",
+    bytes: JSON.stringify({ type: "json", value: { rows: [1, 2, 3] } }).length,
+  });
+
+  // Detection keys off metadata, not the placeholder wording
+  part.output = { type: "text", value: "Ergebnis gespeichert." };
+  const again = await compact(compacted, { storage: adapter });
+  assert.equal(
+    (again[1] as any).content[0].output.value,
+    "Ergebnis gespeichert."
+  );
+  const restored = await decompact(again, { storage: adapter });
+  assert.deepEqual(restored, makeConversation());
+}
+
+(async () => {
+  await testRoundTrip();
+  await testSelectedCallsAndMissingFiles();
+  await testStructuredMetadata();
+  // eslint-disable-next-line no-console
+  console.log("Decompact tests passed");
+})().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,166 @@
+import type { ModelMessage } from "ai";
+import assert from "node:assert/strict";
+import { mock } from "node:test";
+import {
+  compact,
+  decompact,
+  InMemoryFileAdapter,
+  purgeSession,
+} from "../src/index";
+
+const listing = { entries: ["README.md", "servers", "tools.json"] };
+
+function turn(id: string, value: unknown): ModelMessage[] {
+  return [
+    {
+      role: "assistant",
+      content: [
+        {
+          type: "tool-call",
+          toolCallId: id,
+          toolName: "listDir",
+          input: { path: "mcp" },
+        },
+      ],
+    },
+    {
+      role: "tool",
+      content: [
+        {
+          type: "tool-result",
+          toolCallId: id,
+          toolName: "listDir",
+          output: { type: "json", value: value as any },
+        },
+      ],
+    },
+  ];
+}
+
+function makeConversation(): ModelMessage[] {
+  return [
+    { role: "user", content: "What's in mcp?" },
+    ...turn("call-1", listing),
+    ...turn("call-2", listing),
+    ...turn("call-3", { entries: ["README.md"] }),
+    { role: "assistant", content: "Three entries." },
+  ];
+}
+
+function outputAt(messages: ModelMessage[], index: number): any {
+  return (messages[index] as any).content[0];
+}
+
+async function testStoresIdenticalOutputsOnce() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  const write = mock.method(adapter, "write");
+  const messages = makeConversation();
+  const result = await compact(messages, {
+    storage: adapter,
+    boundary: "all",
+    sessionId: "s",
+    deduplicate: true,
+  });
+
+  assert.equal(
+    write.mock.callCount(),
+    2,
+    "the duplicate listing is not rewritten"
+  );
+  const first = outputAt(result, 2);
+  const second = outputAt(result, 4);
+  const key = first.providerOptions.ctxZip.key;
+  assert.match(key, /^mem\/listDir-[0-9a-f]{16}\.json$/);
+  assert.match(first.output.value, /^Written to file: /);
+  assert.equal(
+    second.output.value,
+    `Same as result of call call-1, written to file: memory:///${key}. To read it, use: sandbox_cat({ file: "${key}" })`
+  );
+  assert.equal(second.providerOptions.ctxZip.key, key);
+  assert.notEqual(outputAt(result, 6).providerOptions.ctxZip.key, key);
+
+  // Both occurrences restore to the original output
+  const restored = await decompact(result, { storage: adapter });
+  assert.deepEqual(restored, messages);
+}
+
+async function testDeduplicatesAcrossRuns() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  const write = mock.method(adapter, "write");
+  const first = await compact(makeConversation(), {
+    storage: adapter,
+    boundary: "all",
+    sessionId: "s",
+    deduplicate: true,
+  });
+  const key = outputAt(first, 2).providerOptions.ctxZip.key;
+
+  const extended: ModelMessage[] = [
+    ...first.slice(0, -1),
+    ...turn("call-4", listing),
+    { role: "assistant", content: "Still three entries." },
+  ];
+  const writesBefore = write.mock.callCount();
+  const result = await compact(extended, {
+    storage: adapter,
+    boundary: "all",
+    sessionId: "s",
+    deduplicate: true,
+  });
+
+  assert.equal(write.mock.callCount(), writesBefore);
+  assert.match(
+    outputAt(result, 8).output.value,
+    /^Same as result of call call-1, /
+  );
+  assert.equal(outputAt(result, 8).providerOptions.ctxZip.key, key);
+}
+
+async function testScopedToSession() {
+  const adapter = new InMemoryFileAdapter();
+  const compactSession = (sessionId: string) =>
+    compact(makeConversation(), {
+      storage: adapter,
+      boundary: "all",
+      sessionId,
+      deduplicate: true,
+    });
+  const a = await compactSession("A");
+  const b = await compactSession("B");
+  assert.notEqual(
+    outputAt(a, 2).providerOptions.ctxZip.key,
+    outputAt(b, 2).providerOptions.ctxZip.key,
+    "identical outputs of different sessions are stored separately"
+  );
+
+  await purgeSession("B", { storage: adapter });
+  const restored = await decompact(a, { storage: adapter });
+  assert.deepEqual(restored, makeConversation());
+}
+
+async function testDisabledByDefault() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  await compact(makeConversation(), {
+    storage: adapter,
+    boundary: "all",
+    sessionId: "s",
+  });
+  assert.deepEqual(await adapter.list(), [
+    "mem/listDir-call-1.json",
+    "mem/listDir-call-2.json",
+    "mem/listDir-call-3.json",
+  ]);
+}
+
+(async () => {
+  await testStoresIdenticalOutputsOnce();
+  await testDeduplicatesAcrossRuns();
+  await testScopedToSession();
+  await testDisabledByDefault();
+  // eslint-disable-next-line no-console
+  console.log("Dedupe tests passed");
+})().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exit(1);
+});
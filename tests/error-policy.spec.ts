@@ -0,0 +1,163 @@
+import type { ModelMessage } from "ai";
+import assert from "node:assert/strict";
+import { compact, InMemoryFileAdapter } from "../src/index";
+
+const longError = "TypeError: cannot read property 'id' of undefined\n".repeat(
+  50
+);
+
+function makeConversation(): ModelMessage[] {
+  return [
+    { role: "user", content: "Look up the order and the logs" },
+    {
+      role: "assistant",
+      content: [
+        {
+          type: "tool-call",
+          toolCallId: "call-1",
+          toolName: "getOrder",
+          input: { id: 7 },
+        },
+        {
+          type: "tool-call",
+          toolCallId: "call-2",
+          toolName: "queryDb",
+          input: { sql: "select *" },
+        },
+        {
+          type: "tool-call",
+          toolCallId: "call-3",
+          toolName: "sandbox_cat",
+          input: { file: "logs/app.log" },
+        },
+        {
+          type: "tool-call",
+          toolCallId: "call-4",
+          toolName: "fetchEmails",
+          input: {},
+        },
+      ],
+    },
+    {
+      role: "tool",
+      content: [
+        {
+          type: "tool-result",
+          toolCallId: "call-1",
+          toolName: "getOrder",
+          output: { type: "error-text", value: longError },
+        },
+        {
+          type: "tool-result",
+          toolCallId: "call-2",
+          toolName: "queryDb",
+          output: {
+            type: "error-json",
+            value: { code: "ENOTABLE", message: "no such table" },
+          },
+        },
+        {
+          type: "tool-result",
+          toolCallId: "call-3",
+          toolName: "sandbox_cat",
+          output: { type: "error-text", value: "No such file: logs/app.log" },
+        },
+        {
+          type: "tool-result",
+          toolCallId: "call-4",
+          toolName: "fetchEmails",
+          output: { type: "json", value: { emails: ["a", "b"] } },
+        },
+      ],
+    },
+    { role: "assistant", content: "The order lookup failed." },
+  ];
+}
+
+function toolParts(messages: ModelMessage[]): any[] {
+  return (messages[2] as any).content;
+}
+
+async function testKeepsErrorsInlineByDefault() {
+  const messages = makeConversation();
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  const result = await compact(messages, { storage: adapter, boundary: "all" });
+
+  const parts = toolParts(result);
+  const original = toolParts(messages);
+  assert.equal(parts[0], original[0]);
+  assert.equal(parts[1], original[1]);
+  assert.equal(parts[2], original[2], "reader tool errors stay inline too");
+  assert.match(parts[3].output.value, /^Written to file:/);
+  assert.equal((await adapter.list()).length, 1);
+
+  const dropped = await compact(messages, {
+    strategy: "drop-tool-results",
+    boundary: "all",
+  });
+  assert.equal(toolParts(dropped)[0], original[0]);
+  assert.match(toolParts(dropped)[3].output.value, /^Results dropped/);
+}
+
+async function testTruncatesLongErrors() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  const result = await compact(makeConversation(), {
+    storage: adapter,
+    boundary: "all",
+    errorPolicy: "truncate",
+  });
+  const parts = toolParts(result);
+
+  assert.equal(parts[0].output.type, "error-text");
+  assert.equal(
+    parts[0].output.value,
+    `${longError.slice(0, 1000)}... [truncated ${
+      longError.length - 1000
+    } characters]`
+  );
+  assert.equal(
+    parts[0].providerOptions.ctxZip.strategy,
+    "write-tool-results-to-file"
+  );
+  // Short errors are already small enough
+  assert.equal(parts[1].output.type, "error-json");
+  assert.equal(parts[2].output.value, "No such file: logs/app.log");
+  assert.equal((await adapter.list()).length, 1);
+
+  const again = await compact(result, {
+    storage: adapter,
+    boundary: "all",
+    errorPolicy: "truncate",
+  });
+  assert.deepEqual(again, result);
+}
+
+async function testPersistsErrorsWhenAsked() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  const result = await compact(makeConversation(), {
+    storage: adapter,
+    boundary: "all",
+    sessionId: "s",
+    errorPolicy: "persist",
+  });
+  const parts = toolParts(result);
+
+  assert.match(parts[0].output.value, /^Written to file:/);
+  assert.ok(await adapter.exists("mem/getOrder-call-1.json"));
+  assert.equal(
+    parts[2].output.value,
+    'Reference-only result. To read it again, use: sandbox_cat({ file: "logs/app.log" })'
+  );
+}
+
+(async () => {
+  await testKeepsErrorsInlineByDefault();
+  await testTruncatesLongErrors();
+  await testPersistsErrorsWhenAsked();
+  // eslint-disable-next-line no-console
+  console.log("Error policy tests passed");
+})().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exit(1);
+});
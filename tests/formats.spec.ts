@@ -0,0 +1,194 @@
+import type { ModelMessage } from "ai";
+import assert from "node:assert/strict";
+import { compact, decompact, InMemoryFileAdapter } from "../src/index";
+import { unwrapPersistedToolResult } from "../src/sandbox-code-generator/sandbox-tools";
+
+const users = [
+  { id: 1, name: "Ada", note: 'says "hi", twice' },
+  { id: 2, name: "Grace", note: "line\nbreak" },
+];
+
+function makeConversation(): ModelMessage[] {
+  return [
+    { role: "user", content: "Who are the users?" },
+    {
+      role: "assistant",
+      content: [
+        {
+          type: "tool-call",
+          toolCallId: "call-1",
+          toolName: "listUsers",
+          input: {},
+        },
+        {
+          type: "tool-call",
+          toolCallId: "call-2",
+          toolName: "getReadme",
+          input: {},
+        },
+      ],
+    },
+    {
+      role: "tool",
+      content: [
+        {
+          type: "tool-result",
+          toolCallId: "call-1",
+          toolName: "listUsers",
+          output: { type: "json", value: users },
+        },
+        {
+          type: "tool-result",
+          toolCallId: "call-2",
+          toolName: "getReadme",
+          output: { type: "text", value: "# Users\n\nTwo of them." },
+        },
+      ],
+    },
+    { role: "assistant", content: "Ada and Grace." },
+  ];
+}
+
+async function testHonorsToolResultSerializer() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  await compact(makeConversation(), {
+    storage: adapter,
+    boundary: "all",
+    sessionId: "s",
+    toolResultSerializer: (value) => JSON.stringify(value),
+  });
+  const body = await adapter.readText({ key: "mem/listUsers-call-1.json" });
+  assert.equal(body, JSON.stringify(JSON.parse(body)), "compact JSON");
+  assert.equal(
+    (await adapter.stat("mem/listUsers-call-1.json"))?.contentType,
+    "application/json"
+  );
+}
+
+async function testCsvAndText() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  const messages = makeConversation();
+  const result = await compact(messages, {
+    storage: adapter,
+    boundary: "all",
+    sessionId: "s",
+    toolFormats: { listUsers: "csv", getReadme: "text" },
+  });
+
+  assert.equal(
+    await adapter.readText({ key: "mem/listUsers-call-1.csv" }),
+    'id,name,note\r\n1,Ada,"says ""hi"", twice"\r\n2,Grace,"line\nbreak"\r\n'
+  );
+  assert.equal(
+    (await adapter.stat("mem/listUsers-call-1.csv"))?.contentType,
+    "text/csv"
+  );
+  assert.equal(
+    await adapter.readText({ key: "mem/getReadme-call-2.txt" }),
+    "# Users\n\nTwo of them."
+  );
+  assert.equal(
+    (await adapter.stat("mem/getReadme-call-2.txt"))?.contentType,
+    "text/plain"
+  );
+
+  const [csvPart, textPart] = (result[2] as any).content;
+  assert.equal(csvPart.providerOptions.ctxZip.format, "csv");
+  assert.match(
+    csvPart.output.value,
+    /sandbox_cat\(\{ file: "mem\/listUsers-call-1\.csv" \}\)/
+  );
+
+  // Text restores exactly; CSV restores as the file's text
+  const restored = await decompact(result, { storage: adapter });
+  const [restoredCsv, restoredText] = (restored[2] as any).content;
+  assert.deepEqual(restoredText, (messages[2] as any).content[1]);
+  assert.deepEqual(restoredCsv.output, {
+    type: "text",
+    value: await adapter.readText({ key: "mem/listUsers-call-1.csv" }),
+  });
+}
+
+async function testMarkdownAndFallback() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  await compact(makeConversation(), {
+    storage: adapter,
+    boundary: "all",
+    sessionId: "s",
+    format: "markdown",
+    toolFormats: { getReadme: "csv" },
+  });
+
+  assert.equal(
+    await adapter.readText({ key: "mem/listUsers-call-1.md" }),
+    "| id | name | note |\n| --- | --- | --- |\n" +
+      '| 1 | Ada | says "hi", twice |\n| 2 | Grace | line<br>break |\n'
+  );
+  assert.equal(
+    (await adapter.stat("mem/listUsers-call-1.md"))?.contentType,
+    "text/markdown"
+  );
+  // Text output isn't tabular, so the CSV format falls back to JSON
+  const fallback = JSON.parse(
+    await adapter.readText({ key: "mem/getReadme-call-2.json" })
+  );
+  assert.equal(fallback.output, "# Users\n\nTwo of them.");
+}
+
+async function testNdjsonFormat() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  const messages = makeConversation();
+  const result = await compact(messages, {
+    storage: adapter,
+    boundary: "all",
+    sessionId: "s",
+    format: "ndjson",
+  });
+
+  const body = await adapter.readText({ key: "mem/listUsers-call-1.ndjson" });
+  assert.equal(
+    (await adapter.stat("mem/listUsers-call-1.ndjson"))?.contentType,
+    "application/x-ndjson"
+  );
+  assert.equal(body.trimEnd().split("\n").length, 3);
+  assert.ok(await adapter.exists("mem/getReadme-call-2.json"));
+
+  const restored = await decompact(result, { storage: adapter });
+  assert.deepEqual(restored, messages);
+}
+
+function testUnwrapPersistedToolResult() {
+  const json = JSON.stringify(
+    { metadata: { toolName: "listUsers" }, output: users },
+    null,
+    2
+  );
+  assert.equal(unwrapPersistedToolResult(json), JSON.stringify(users, null, 2));
+
+  const ndjson = [
+    JSON.stringify({ metadata: { toolName: "listUsers", format: "ndjson" } }),
+    ...users.map((user) => JSON.stringify(user)),
+    "",
+  ].join("\n");
+  assert.equal(
+    unwrapPersistedToolResult(ndjson),
+    users.map((user) => `${JSON.stringify(user)}\n`).join("")
+  );
+
+  const csv = "id,name\r\n1,Ada\r\n";
+  assert.equal(unwrapPersistedToolResult(csv), csv);
+}
+
+(async () => {
+  await testHonorsToolResultSerializer();
+  await testCsvAndText();
+  await testMarkdownAndFallback();
+  await testNdjsonFormat();
+  testUnwrapPersistedToolResult();
+  // eslint-disable-next-line no-console
+  console.log("Format tests passed");
+})().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exit(1);
+});
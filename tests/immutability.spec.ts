@@ -0,0 +1,113 @@
+import type { ModelMessage } from "ai";
+import assert from "node:assert/strict";
+import {
+  compact,
+  type CompactOptions,
+  InMemoryFileAdapter,
+} from "../src/index";
+
+function makeConversation(): ModelMessage[] {
+  return [
+    { role: "system", content: "You are helpful." },
+    { role: "user", content: "Fetch and read" },
+    {
+      role: "assistant",
+      content: [
+        {
+          type: "tool-call",
+          toolCallId: "call-1",
+          toolName: "fetchData",
+          input: { payload: "p".repeat(2000) },
+        },
+        {
+          type: "tool-call",
+          toolCallId: "call-2",
+          toolName: "sandbox_cat",
+          input: { file: "notes.txt" },
+        },
+      ],
+    },
+    {
+      role: "tool",
+      content: [
+        {
+          type: "tool-result",
+          toolCallId: "call-1",
+          toolName: "fetchData",
+          output: { type: "json", value: { rows: [1, 2, 3] } },
+        },
+        {
+          type: "tool-result",
+          toolCallId: "call-2",
+          toolName: "sandbox_cat",
+          output: { type: "text", value: "notes" },
+        },
+      ],
+    },
+    { role: "user", content: "Thanks" },
+    {
+      role: "tool",
+      content: [
+        {
+          type: "tool-result",
+          toolCallId: "call-3",
+          toolName: "ping",
+          output: { type: "json", value: { ok: true } },
+        },
+      ],
+    },
+    { role: "assistant", content: "Done" },
+  ];
+}
+
+const variants: CompactOptions[] = [
+  {},
+  { strategy: "drop-tool-results" },
+  { compactToolCallInputs: true, preview: true },
+  { boundary: { type: "token-budget", maxTokens: 1 } },
+  { minSizeBytes: 40 },
+];
+
+async function testDoesNotMutateInput() {
+  for (const variant of variants) {
+    const messages = makeConversation();
+    const snapshot = structuredClone(messages);
+    const compacted = await compact(messages, {
+      storage: new InMemoryFileAdapter({ prefix: "mem" }),
+      ...variant,
+    });
+    assert.deepEqual(messages, snapshot);
+    assert.notEqual(compacted, messages);
+  }
+}
+
+async function testSharesUntouchedObjects() {
+  const messages = makeConversation();
+  const compacted = await compact(messages, {
+    storage: new InMemoryFileAdapter({ prefix: "mem" }),
+    minSizeBytes: 40,
+  });
+  // Messages without changes are shared
+  for (const index of [0, 1, 2, 4, 6]) {
+    assert.equal(compacted[index], messages[index]);
+  }
+  // Changed messages are copied, their untouched parts are shared
+  const before = messages[3] as any;
+  const after = compacted[3] as any;
+  assert.notEqual(after, before);
+  assert.notEqual(after.content[0], before.content[0]);
+  assert.match(after.content[0].output.value, /^Written to file:/);
+  // The small ping result stays inline and shared
+  assert.equal(compacted[5], messages[5]);
+}
+
+(async () => {
+  await testDoesNotMutateInput();
+  await testSharesUntouchedObjects();
+  // eslint-disable-next-line no-console
+  console.log("Immutability tests passed");
+})().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exit(1);
+});
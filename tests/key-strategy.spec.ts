@@ -0,0 +1,75 @@
+import type { ModelMessage } from "ai";
+import assert from "node:assert/strict";
+import { compact, InMemoryFileAdapter } from "../src/index";
+
+function fetchTurn(id: string, withCallId = true): ModelMessage[] {
+  const toolCallId = withCallId ? `call-${id}` : (undefined as any);
+  return [
+    { role: "user", content: `Fetch ${id}` },
+    {
+      role: "assistant",
+      content: [
+        { type: "tool-call", toolCallId, toolName: "fetchEmails", input: {} },
+      ],
+    },
+    {
+      role: "tool",
+      content: [
+        {
+          type: "tool-result",
+          toolCallId,
+          toolName: "fetchEmails",
+          output: { type: "json", value: { batch: id } },
+        },
+      ],
+    },
+    { role: "assistant", content: `Fetched ${id}` },
+  ];
+}
+
+async function testUniqueKeysPerCall() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  await compact([...fetchTurn("A"), ...fetchTurn("B")], { storage: adapter });
+  assert.deepEqual(await adapter.list(), [
+    "mem/fetchEmails-call-A.json",
+    "mem/fetchEmails-call-B.json",
+  ]);
+}
+
+async function testSeqFallbackIsStableAcrossCompactions() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  let messages = [...fetchTurn("A", false)];
+  messages = await compact(messages, { storage: adapter });
+  messages = await compact([...messages, ...fetchTurn("B", false)], {
+    storage: adapter,
+  });
+  // Re-compacting the same history writes nothing new
+  await compact(messages, { storage: adapter });
+  assert.deepEqual(await adapter.list(), [
+    "mem/fetchEmails-1.json",
+    "mem/fetchEmails-2.json",
+  ]);
+}
+
+async function testCustomKeyStrategy() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  await compact(fetchTurn("A"), {
+    storage: adapter,
+    sessionId: "s1",
+    keyStrategy: ({ toolName, seq, sessionId }) =>
+      `${sessionId}/${toolName}/${seq}.json`,
+  });
+  assert.equal((await adapter.list())[0], "mem/s1/fetchEmails/1.json");
+}
+
+(async () => {
+  await testUniqueKeysPerCall();
+  await testSeqFallbackIsStableAcrossCompactions();
+  await testCustomKeyStrategy();
+  // eslint-disable-next-line no-console
+  console.log("Key strategy tests passed");
+})().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exit(1);
+});
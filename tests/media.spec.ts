@@ -0,0 +1,254 @@
+import type { ModelMessage } from "ai";
+import assert from "node:assert/strict";
+import { compact, compactWithReport, InMemoryFileAdapter } from "../src/index";
+
+// Minimal PNG: signature plus an IHDR chunk declaring 640x480
+function makePng(width: number, height: number): Buffer {
+  const png = Buffer.alloc(64);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(png, 0);
+  png.writeUInt32BE(13, 8);
+  png.write("IHDR", 12, "ascii");
+  png.writeUInt32BE(width, 16);
+  png.writeUInt32BE(height, 20);
+  return png;
+}
+
+const png = makePng(640, 480);
+const pdf = Buffer.from("%PDF-1.4 " + "x".repeat(200));
+
+function makeConversation(): ModelMessage[] {
+  return [
+    {
+      role: "user",
+      content: [
+        { type: "text", text: "What is in this screenshot and report?" },
+        { type: "image", image: png.toString("base64") },
+        {
+          type: "file",
+          data: new Uint8Array(pdf),
+          mediaType: "application/pdf",
+          filename: "report.pdf",
+        },
+        { type: "image", image: new URL("https://example.com/cat.png") },
+      ],
+    },
+    {
+      role: "assistant",
+      content: [
+        {
+          type: "tool-call",
+          toolCallId: "call-1",
+          toolName: "screenshot",
+          input: {},
+        },
+      ],
+    },
+    {
+      role: "tool",
+      content: [
+        {
+          type: "tool-result",
+          toolCallId: "call-1",
+          toolName: "screenshot",
+          output: {
+            type: "content",
+            value: [
+              { type: "text", text: "Captured the page." },
+              {
+                type: "media",
+                data: png.toString("base64"),
+                mediaType: "image/png",
+              },
+            ],
+          },
+        },
+      ],
+    },
+    { role: "assistant", content: "A chart and a quarterly report." },
+  ];
+}
+
+async function testLeavesMediaInlineByDefault() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  const messages = makeConversation();
+  const result = await compact(messages, {
+    storage: adapter,
+    boundary: "all",
+    sessionId: "s",
+  });
+  assert.deepEqual(result[0], messages[0]);
+  assert.equal(
+    await adapter.exists("mem/screenshot-call-1-media-1.png"),
+    false
+  );
+}
+
+async function testOffloadsToolOutputMedia() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  const result = await compact(makeConversation(), {
+    storage: adapter,
+    boundary: "all",
+    sessionId: "s",
+    compactMedia: true,
+  });
+
+  const key = "mem/screenshot-call-1-media-1.png";
+  const stored = await adapter.stat(key);
+  assert.ok(stored, "media written with the media type's extension");
+  assert.equal(stored.contentType, "image/png");
+  const chunks: Buffer[] = [];
+  for await (const chunk of await adapter.openReadStream({ key })) {
+    chunks.push(Buffer.from(chunk));
+  }
+  assert.deepEqual(Buffer.concat(chunks), png);
+
+  const part: any = (result[2] as any).content[0];
+  assert.equal(part.output.type, "content");
+  assert.deepEqual(part.output.value[0], {
+    type: "text",
+    text: "Captured the page.",
+  });
+  assert.equal(
+    part.output.value[1].text,
+    "Image (image/png, 640x480, 64 bytes) written to file: memory:///mem/screenshot-call-1-media-1.png"
+  );
+  assert.deepEqual(part.providerOptions.ctxZip.media, [
+    {
+      key: "mem/screenshot-call-1-media-1.png",
+      mediaType: "image/png",
+      bytes: 64,
+      width: 640,
+      height: 480,
+    },
+  ]);
+}
+
+async function testOffloadsMessageImageAndFileParts() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  const result = await compact(makeConversation(), {
+    storage: adapter,
+    boundary: "all",
+    sessionId: "s",
+    compactMedia: true,
+  });
+
+  const content: any[] = (result[0] as any).content;
+  assert.equal(content[0].text, "What is in this screenshot and report?");
+
+  // Image without a mediaType is detected from its bytes
+  const imageKey: string = content[1].providerOptions.ctxZip.key;
+  assert.match(imageKey, /^mem\/user-image-[0-9a-f]{16}\.png$/);
+  assert.equal((await adapter.stat(imageKey))?.contentType, "image/png");
+  assert.equal(content[1].type, "text");
+  assert.match(content[1].text, /^Image \(image\/png, 640x480, 64 bytes\)/);
+  assert.deepEqual(content[1].providerOptions.ctxZip, {
+    compacted: true,
+    strategy: "write-tool-results-to-file",
+    key: imageKey,
+    mediaType: "image/png",
+    bytes: 64,
+    width: 640,
+    height: 480,
+  });
+
+  const fileKey: string = content[2].providerOptions.ctxZip.key;
+  assert.match(fileKey, /^mem\/user-file-[0-9a-f]{16}\.pdf$/);
+  assert.equal((await adapter.stat(fileKey))?.contentType, "application/pdf");
+  assert.equal(
+    content[2].text,
+    `File report.pdf (application/pdf, ${pdf.length} bytes) written to file: memory:///${fileKey}`
+  );
+
+  // URLs aren't inline data and stay as they are
+  assert.equal(content[3].type, "image");
+  assert.ok(content[3].image instanceof URL);
+}
+
+async function testSessionsSharingStorageKeepTheirOwnMedia() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  const otherPdf = Buffer.from("%PDF-1.4 " + "y".repeat(200));
+  const conversation = (data: Buffer): ModelMessage[] => [
+    {
+      role: "user",
+      content: [
+        {
+          type: "file",
+          data: new Uint8Array(data),
+          mediaType: "application/pdf",
+        },
+      ],
+    },
+    { role: "assistant", content: "Read it." },
+  ];
+
+  const [a] = await compact(conversation(pdf), {
+    storage: adapter,
+    boundary: "all",
+    sessionId: "a",
+    compactMedia: true,
+  });
+  const [b] = await compact(conversation(otherPdf), {
+    storage: adapter,
+    boundary: "all",
+    sessionId: "b",
+    compactMedia: true,
+  });
+
+  const keyA: string = (a as any).content[0].providerOptions.ctxZip.key;
+  const keyB: string = (b as any).content[0].providerOptions.ctxZip.key;
+  assert.notEqual(keyA, keyB);
+  assert.equal(await adapter.readText({ key: keyA }), pdf.toString());
+  assert.equal(await adapter.readText({ key: keyB }), otherPdf.toString());
+}
+
+async function testMinSizeKeepsSmallMediaInline() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  const result = await compact(makeConversation(), {
+    storage: adapter,
+    boundary: "all",
+    sessionId: "s",
+    compactMedia: { minSizeBytes: 100 },
+  });
+  const content: any[] = (result[0] as any).content;
+  assert.equal(content[1].type, "image", "64-byte image stays inline");
+  assert.equal(content[2].type, "text", "larger PDF is offloaded");
+}
+
+async function testIsIdempotentAndReported() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  const { messages: once, report } = await compactWithReport(
+    makeConversation(),
+    { storage: adapter, boundary: "all", sessionId: "s", compactMedia: true }
+  );
+  assert.deepEqual(
+    report.entries.map((e) => [e.toolName, e.partType]),
+    [
+      ["user-image", "image"],
+      ["user-file", "file"],
+      ["screenshot", "tool-result"],
+    ]
+  );
+
+  const twice = await compact(once, {
+    storage: adapter,
+    boundary: "all",
+    sessionId: "s",
+    compactMedia: true,
+  });
+  assert.deepEqual(twice, once);
+}
+
+(async () => {
+  await testLeavesMediaInlineByDefault();
+  await testOffloadsToolOutputMedia();
+  await testOffloadsMessageImageAndFileParts();
+  await testSessionsSharingStorageKeepTheirOwnMedia();
+  await testMinSizeKeepsSmallMediaInline();
+  await testIsIdempotentAndReported();
+  // eslint-disable-next-line no-console
+  console.log("Media tests passed");
+})().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exit(1);
+});
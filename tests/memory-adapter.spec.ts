@@ -0,0 +1,154 @@
+import type { ModelMessage } from "ai";
+import assert from "node:assert/strict";
+import {
+  compact,
+  decompact,
+  grepObject,
+  InMemoryFileAdapter,
+} from "../src/index";
+import { createFileAdapter } from "../src/tool-results-compactor/lib/resolver";
+
+function makeConversation(): ModelMessage[] {
+  return [
+    { role: "user", content: "Check the logs" },
+    {
+      role: "assistant",
+      content: [
+        {
+          type: "tool-call",
+          toolCallId: "call-1",
+          toolName: "readLogs",
+          input: {},
+        },
+      ],
+    },
+    {
+      role: "tool",
+      content: [
+        {
+          type: "tool-result",
+          toolCallId: "call-1",
+          toolName: "readLogs",
+          output: {
+            type: "json",
+            value: { lines: ["ok", "warn: disk", "ok", "error: timeout"] },
+          },
+        },
+      ],
+    },
+    { role: "assistant", content: "One error." },
+  ];
+}
+
+async function testReadWriteListDelete() {
+  const adapter = new InMemoryFileAdapter({
+    prefix: "compact",
+    sessionId: "s1",
+  });
+  const key = adapter.resolveKey("../notes.txt");
+  assert.equal(key, "compact/s1/tool-results/notes.txt");
+
+  const result = await adapter.write({
+    key,
+    body: "first\nsecond: match\n",
+    contentType: "text/plain",
+  });
+  assert.equal(result.url, `memory:///${key}`);
+  await adapter.write({ key: "compact/s2/tool-results/a.json", body: "{}" });
+  await adapter.write({
+    key: "compact/s1/tool-results/bytes.bin",
+    body: new Uint8Array([104, 105]),
+  });
+
+  assert.equal(await adapter.readText({ key }), "first\nsecond: match\n");
+  assert.equal(
+    await adapter.readText({ key: "compact/s1/tool-results/bytes.bin" }),
+    "hi"
+  );
+  assert.deepEqual(await grepObject(adapter, key, /match/), [
+    { lineNumber: 2, line: "second: match" },
+  ]);
+  assert.deepEqual(await adapter.list("compact/s1/"), [
+    "compact/s1/tool-results/bytes.bin",
+    "compact/s1/tool-results/notes.txt",
+  ]);
+  assert.equal((await adapter.list()).length, 3);
+
+  assert.equal(await adapter.delete(key), true);
+  assert.equal(await adapter.delete(key), false);
+  await assert.rejects(adapter.readText({ key }), /File not found/);
+
+  // Adapters without a name don't share files
+  assert.deepEqual(await new InMemoryFileAdapter().list(), []);
+}
+
+async function testWriteStream() {
+  const adapter = new InMemoryFileAdapter();
+  const stream = await adapter.openWriteStream({ key: "big.ndjson" });
+  stream.write('{"n":1}\n');
+  stream.write('{"n":2}\n');
+  await new Promise<void>((resolve) => stream.end(() => resolve()));
+  assert.equal(
+    await adapter.readText({ key: "big.ndjson" }),
+    '{"n":1}\n{"n":2}\n'
+  );
+}
+
+async function testMemoryUri() {
+  const adapter = createFileAdapter("memory://agent-test/compact");
+  assert.ok(adapter instanceof InMemoryFileAdapter);
+  assert.equal(adapter.toString(), "memory://agent-test");
+  assert.equal(adapter.resolveKey("x.json"), "compact/x.json");
+
+  // compact() and decompact() each resolve the URI; the named store is shared
+  const messages = makeConversation();
+  const compacted = await compact(messages, {
+    storage: "memory://agent-test/compact",
+    boundary: "all",
+    sessionId: "s",
+  });
+  assert.match(
+    (compacted[2] as any).content[0].output.value,
+    /^Written to file: memory:\/\/agent-test\/compact\/readLogs-call-1\.json/
+  );
+  assert.deepEqual(
+    await new InMemoryFileAdapter({ name: "agent-test" }).list(),
+    ["compact/readLogs-call-1.json"]
+  );
+
+  const restored = await decompact(compacted, {
+    storage: "memory://agent-test",
+  });
+  assert.deepEqual(restored, messages);
+
+  // Store names keep their case, in URIs as in options
+  await new InMemoryFileAdapter({ name: "Agent" }).write({
+    key: "a.txt",
+    body: "A",
+  });
+  assert.equal(
+    createFileAdapter("memory://Agent").toString(),
+    "memory://Agent"
+  );
+  assert.deepEqual(await createFileAdapter("memory://Agent").list!(), [
+    "a.txt",
+  ]);
+  assert.deepEqual(await createFileAdapter("memory://agent").list!(), []);
+
+  assert.throws(
+    () => createFileAdapter("ftp://example.com"),
+    /Only file:\/\/, memory:\/\/, s3:\/\/ and sqlite:\/\/ URIs are supported/
+  );
+}
+
+(async () => {
+  await testReadWriteListDelete();
+  await testWriteStream();
+  await testMemoryUri();
+  // eslint-disable-next-line no-console
+  console.log("In-memory adapter tests passed");
+})().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,68 @@
+import type { ModelMessage } from "ai";
+import assert from "node:assert/strict";
+import { compact, InMemoryFileAdapter } from "../src/index";
+
+function call(toolCallId: string) {
+  return {
+    type: "tool-call" as const,
+    toolCallId,
+    toolName: "listDir",
+    input: {},
+  };
+}
+
+function result(toolCallId: string) {
+  return {
+    type: "tool-result" as const,
+    toolCallId,
+    toolName: "listDir",
+    output: { type: "json" as const, value: { entries: ["a", "b"] } },
+  };
+}
+
+// Ends mid-turn: the latest step produced two tool messages
+function makeConversation(): ModelMessage[] {
+  return [
+    { role: "user", content: "Explore" },
+    { role: "assistant", content: [call("call-1")] },
+    { role: "tool", content: [result("call-1")] },
+    { role: "assistant", content: [call("call-2"), call("call-3")] },
+    { role: "tool", content: [result("call-2")] },
+    { role: "tool", content: [result("call-3")] },
+  ];
+}
+
+function outputType(messages: ModelMessage[], index: number) {
+  return (messages[index] as any).content[0].output.type;
+}
+
+async function testSkipsByDefault() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  const compacted = await compact(makeConversation(), { storage: adapter });
+  assert.equal((await adapter.list()).length, 0);
+  assert.equal(outputType(compacted, 2), "json");
+}
+
+async function testProtectsTrailingBatch() {
+  for (const strategy of ["write-tool-results-to-file", "drop-tool-results"]) {
+    const compacted = await compact(makeConversation(), {
+      strategy,
+      storage: new InMemoryFileAdapter({ prefix: "mem" }),
+      requireAssistantText: false,
+    });
+    assert.equal(outputType(compacted, 2), "text");
+    assert.equal(outputType(compacted, 4), "json");
+    assert.equal(outputType(compacted, 5), "json");
+  }
+}
+
+(async () => {
+  await testSkipsByDefault();
+  await testProtectsTrailingBatch();
+  // eslint-disable-next-line no-console
+  console.log("Mid-turn tests passed");
+})().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exit(1);
+});
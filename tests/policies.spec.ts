@@ -0,0 +1,198 @@
+import type { LanguageModel, ModelMessage } from "ai";
+import assert from "node:assert/strict";
+import { compact, InMemoryFileAdapter } from "../src/index";
+
+const tools: Array<{ toolName: string; value: unknown }> = [
+  { toolName: "getWeather", value: { city: "Paris", temp: 20 } },
+  { toolName: "fetchEmails", value: { emails: ["a".repeat(300)] } },
+  { toolName: "jobStatus", value: { state: "running", progress: 0.4 } },
+  { toolName: "mcp__github__list_issues", value: { issues: [1, 2, 3] } },
+  { toolName: "mcp__github__get_me", value: { login: "octocat" } },
+  { toolName: "searchDocs", value: { hits: ["x".repeat(100)] } },
+];
+
+function makeConversation(): ModelMessage[] {
+  return [
+    { role: "user", content: "Catch me up" },
+    {
+      role: "assistant",
+      content: tools.map(({ toolName }, n) => ({
+        type: "tool-call" as const,
+        toolCallId: `call-${n + 1}`,
+        toolName,
+        input: {},
+      })),
+    },
+    {
+      role: "tool",
+      content: tools.map(({ toolName, value }, n) => ({
+        type: "tool-result" as const,
+        toolCallId: `call-${n + 1}`,
+        toolName,
+        output: { type: "json" as const, value: value as any },
+      })),
+    },
+    { role: "assistant", content: "Here is your update." },
+  ];
+}
+
+function mockModel(summary: string) {
+  const calls: unknown[] = [];
+  const model = {
+    specificationVersion: "v2",
+    provider: "mock",
+    modelId: "mock-summarizer",
+    supportedUrls: {},
+    async doGenerate(options: unknown) {
+      calls.push(options);
+      return {
+        content: [{ type: "text", text: summary }],
+        finishReason: "stop",
+        usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+        warnings: [],
+      };
+    },
+    async doStream() {
+      throw new Error("Not implemented");
+    },
+  } as unknown as LanguageModel;
+  return { model, calls };
+}
+
+function toolParts(messages: ModelMessage[]): any[] {
+  return (messages[2] as any).content;
+}
+
+async function testAppliesPoliciesPerTool() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  const { model, calls } = mockModel("One long email.");
+  const messages = makeConversation();
+  const result = await compact(messages, {
+    storage: adapter,
+    boundary: "all",
+    sessionId: "s",
+    summaryModel: model,
+    policies: {
+      getWeather: "keep",
+      fetchEmails: "summarize",
+      jobStatus: "drop",
+      "mcp__github__*": "persist",
+      // Exact names win over globs
+      mcp__github__get_me: "keep",
+      searchDocs: ({ output }) =>
+        JSON.stringify(output).length > 50 ? "persist" : "keep",
+    },
+  });
+  const parts = toolParts(result);
+  const original = toolParts(messages);
+
+  assert.equal(parts[0], original[0], "keep leaves the part untouched");
+  assert.match(parts[1].output.value, /^Written to file: .*fetchEmails/);
+  assert.match(parts[1].output.value, /\nSummary: One long email\.$/);
+  assert.equal(calls.length, 1, "only the summarize policy calls the model");
+  assert.equal(
+    parts[2].output.value,
+    "Results dropped for tool: jobStatus to preserve context"
+  );
+  assert.equal(parts[2].providerOptions.ctxZip.strategy, "drop-tool-results");
+  assert.match(parts[3].output.value, /^Written to file: /);
+  assert.doesNotMatch(parts[3].output.value, /Summary:/);
+  assert.equal(parts[4], original[4]);
+  assert.match(parts[5].output.value, /^Written to file: /);
+
+  assert.deepEqual(await adapter.list(), [
+    "mem/fetchEmails-call-2.json",
+    "mem/mcp__github__list_issues-call-4.json",
+    "mem/searchDocs-call-6.json",
+  ]);
+}
+
+async function testDefaultsAreUnchanged() {
+  const withoutPolicies = await compact(makeConversation(), {
+    storage: new InMemoryFileAdapter({ prefix: "mem" }),
+    boundary: "all",
+    sessionId: "s",
+  });
+  const withEmptyPolicies = await compact(makeConversation(), {
+    storage: new InMemoryFileAdapter({ prefix: "mem" }),
+    boundary: "all",
+    sessionId: "s",
+    policies: {},
+  });
+  const values = (messages: ModelMessage[]) =>
+    toolParts(messages).map((p) => p.output.value);
+  assert.deepEqual(values(withEmptyPolicies), values(withoutPolicies));
+  assert.ok(
+    values(withoutPolicies).every((v: string) => v.startsWith("Written to"))
+  );
+}
+
+async function testPoliciesWithDropStrategy() {
+  const result = await compact(makeConversation(), {
+    strategy: "drop-tool-results",
+    boundary: "all",
+    policies: { getWeather: "keep" },
+  });
+  const parts = toolParts(result);
+  assert.equal(parts[0].output.type, "json");
+  assert.match(parts[1].output.value, /^Results dropped/);
+
+  await assert.rejects(
+    compact(makeConversation(), {
+      strategy: "drop-tool-results",
+      boundary: "all",
+      policies: { fetchEmails: "persist" },
+    }),
+    /"persist" policy for tool "fetchEmails" requires a strategy with storage/
+  );
+}
+
+async function testExplicitPoliciesIgnoreThresholds() {
+  for (const strategy of [
+    "write-tool-results-to-file",
+    "drop-tool-results",
+  ] as const) {
+    const result = await compact(makeConversation(), {
+      storage: new InMemoryFileAdapter({ prefix: "mem" }),
+      strategy,
+      boundary: "all",
+      minSizeBytes: 1000,
+      policies: {
+        jobStatus: "drop",
+        ...(strategy === "drop-tool-results" ? {} : { getWeather: "persist" }),
+      },
+    });
+    const parts = toolParts(result);
+    if (strategy !== "drop-tool-results") {
+      assert.match(parts[0].output.value, /^Written to file:/);
+    }
+    assert.match(parts[2].output.value, /^Results dropped/);
+    // Tools without a policy stay below the threshold
+    assert.equal(parts[1].output.type, "json");
+  }
+}
+
+async function testSummarizeRequiresModel() {
+  await assert.rejects(
+    compact(makeConversation(), {
+      storage: new InMemoryFileAdapter({ prefix: "mem" }),
+      boundary: "all",
+      policies: { fetchEmails: "summarize" },
+    }),
+    /"summarize" policy for tool "fetchEmails" requires the summaryModel option/
+  );
+}
+
+(async () => {
+  await testAppliesPoliciesPerTool();
+  await testDefaultsAreUnchanged();
+  await testPoliciesWithDropStrategy();
+  await testExplicitPoliciesIgnoreThresholds();
+  await testSummarizeRequiresModel();
+  // eslint-disable-next-line no-console
+  console.log("Policy tests passed");
+})().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exit(1);
+});
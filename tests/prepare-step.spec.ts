@@ -0,0 +1,170 @@
+import { generateText, stepCountIs, tool, type LanguageModel } from "ai";
+import assert from "node:assert/strict";
+import { mock } from "node:test";
+import { z } from "zod";
+import { createCompactingPrepareStep, InMemoryFileAdapter } from "../src/index";
+
+// Calls fetchData toolSteps times, then answers; records the prompt of every step
+function scriptedModel(toolSteps = 2) {
+  const prompts: any[] = [];
+  const usage = { inputTokens: 1, outputTokens: 1, totalTokens: 2 };
+  const model = {
+    specificationVersion: "v2",
+    provider: "mock",
+    modelId: "scripted",
+    supportedUrls: {},
+    async doGenerate(options: any) {
+      prompts.push(options.prompt);
+      const step = prompts.length;
+      if (step <= toolSteps) {
+        return {
+          content: [
+            {
+              type: "tool-call",
+              toolCallId: `call-${step}`,
+              toolName: "fetchData",
+              input: JSON.stringify({ page: step }),
+            },
+          ],
+          finishReason: "tool-calls",
+          usage,
+          warnings: [],
+        };
+      }
+      return {
+        content: [{ type: "text", text: "Done" }],
+        finishReason: "stop",
+        usage,
+        warnings: [],
+      };
+    },
+    async doStream() {
+      throw new Error("Not implemented");
+    },
+  } as unknown as LanguageModel;
+  return { model, prompts };
+}
+
+function toolResultsIn(prompt: any[]) {
+  return prompt
+    .filter((m) => m.role === "tool")
+    .flatMap((m) => m.content)
+    .map((p: any) => p.output);
+}
+
+async function testCompactsBetweenSteps() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  const write = mock.method(adapter, "write");
+  const { model, prompts } = scriptedModel();
+  await generateText({
+    model,
+    prompt: "Fetch two pages",
+    tools: {
+      fetchData: tool({
+        inputSchema: z.object({ page: z.number() }),
+        execute: async ({ page }) => ({ page, rows: Array(50).fill(page) }),
+      }),
+    },
+    stopWhen: stepCountIs(5),
+    prepareStep: createCompactingPrepareStep({ storage: adapter }),
+  });
+
+  assert.equal(prompts.length, 3);
+  // Step 2 sees the first result verbatim: it is the latest batch
+  assert.equal(toolResultsIn(prompts[1])[0].type, "json");
+  // Step 3 sees the first result compacted and the second verbatim
+  const [first, second] = toolResultsIn(prompts[2]);
+  assert.equal(first.type, "text");
+  assert.match(first.value, /^Written to file:/);
+  assert.equal(second.type, "json");
+  assert.equal(write.mock.callCount(), 1);
+}
+
+async function testReusesEarlierCompaction() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  const write = mock.method(adapter, "write");
+  const { model, prompts } = scriptedModel(4);
+  await generateText({
+    model,
+    prompt: "Fetch four pages",
+    tools: {
+      fetchData: tool({
+        inputSchema: z.object({ page: z.number() }),
+        execute: async ({ page }) => ({ page, rows: Array(50).fill(page) }),
+      }),
+    },
+    stopWhen: stepCountIs(6),
+    prepareStep: createCompactingPrepareStep({ storage: adapter }),
+  });
+
+  assert.equal(prompts.length, 5);
+  const outputs = toolResultsIn(prompts[4]);
+  assert.deepEqual(
+    outputs.map((output: any) => output.type),
+    ["text", "text", "text", "json"]
+  );
+  // Each earlier result is written once, not again on every later step
+  assert.deepEqual(
+    write.mock.calls.map((call) => call.arguments[0].key),
+    [
+      "mem/fetchData-call-1.json",
+      "mem/fetchData-call-2.json",
+      "mem/fetchData-call-3.json",
+    ]
+  );
+}
+
+async function testReusedAcrossRuns() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  const tools = {
+    fetchData: tool({
+      inputSchema: z.object({ page: z.number() }),
+      execute: async ({ page }) => ({ page, rows: Array(50).fill(page) }),
+    }),
+  };
+  const prepareStep = createCompactingPrepareStep<typeof tools>({
+    storage: adapter,
+    compactMedia: true,
+  });
+  const run = async (content: any[]) => {
+    const { model, prompts } = scriptedModel();
+    await generateText({
+      model,
+      messages: [{ role: "user", content }],
+      tools,
+      stopWhen: stepCountIs(5),
+      prepareStep,
+    });
+    return prompts;
+  };
+
+  const image = { type: "image", image: Buffer.alloc(64).toString("base64") };
+  const first = await run([{ type: "text", text: "Describe" }, image]);
+  assert.match(first[2][0].content[1].text, /^File .* written to file:/);
+
+  // Same positions, different parts: nothing from the first run is put back
+  const second = await run([
+    { type: "text", text: "Fetch" },
+    { type: "text", text: "two pages" },
+  ]);
+  for (const prompt of second) {
+    assert.deepEqual(
+      prompt[0].content.map((part: any) => part.text),
+      ["Fetch", "two pages"]
+    );
+  }
+  const [page1] = toolResultsIn(second[2]);
+  assert.match(page1.value, /^Written to file:/);
+}
+
+(async () => {
+  await testCompactsBetweenSteps();
+  await testReusesEarlierCompaction();
+  await testReusedAcrossRuns();
+  // eslint-disable-next-line no-console
+  console.log("Prepare step tests passed");
+})().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,74 @@
+import type { ModelMessage } from "ai";
+import assert from "node:assert/strict";
+import { compact, InMemoryFileAdapter } from "../src/index";
+import {
+  buildPreview,
+  inferShape,
+} from "../src/tool-results-compactor/lib/preview";
+
+const emails = {
+  emails: Array.from({ length: 10 }, (_, i) => ({
+    id: i,
+    subject: `Subject ${i}`,
+  })),
+  total: 10,
+};
+
+function makeConversation(): ModelMessage[] {
+  const result = (toolCallId: string, toolName: string, value: any) => ({
+    type: "tool-result" as const,
+    toolCallId,
+    toolName,
+    output: { type: "json" as const, value },
+  });
+  return [
+    { role: "user", content: "Check my inbox and the weather" },
+    {
+      role: "tool",
+      content: [
+        result("call-1", "fetchEmails", emails),
+        result("call-2", "getWeather", { temp: 20 }),
+      ],
+    },
+    { role: "assistant", content: "Done" },
+  ];
+}
+
+function testShapeAndPreview() {
+  assert.equal(
+    inferShape(emails),
+    "{ emails: Array<{ id: number, subject: string }>, total: number }"
+  );
+  const preview = buildPreview(emails);
+  assert.match(preview, /- Size: \d+ bytes, \d+ lines/);
+  assert.match(preview, /- Keys: emails \(array\[10\]\), total \(number\)/);
+
+  const arrayPreview = buildPreview([1, 2, 3, 4], { headItems: 2 });
+  assert.match(arrayPreview, /- Items: 4/);
+  assert.match(arrayPreview, /\.\.\. 2 more items/);
+
+  const textPreview = buildPreview("a\nb\nc", { headLines: 1, stats: false });
+  assert.doesNotMatch(textPreview, /Size:/);
+  assert.match(textPreview, /\.\.\. 2 more lines/);
+}
+
+async function testPerToolPreview() {
+  const compacted = await compact(makeConversation(), {
+    storage: new InMemoryFileAdapter({ prefix: "mem" }),
+    toolPreviews: { fetchEmails: { headLines: 2 } },
+  });
+  const [emailsPart, weatherPart] = (compacted[1] as any).content;
+  assert.match(emailsPart.output.value, /\nPreview:\n- Size:/);
+  assert.doesNotMatch(weatherPart.output.value, /Preview:/);
+}
+
+(async () => {
+  testShapeAndPreview();
+  await testPerToolPreview();
+  // eslint-disable-next-line no-console
+  console.log("Preview tests passed");
+})().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exit(1);
+});
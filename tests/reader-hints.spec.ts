@@ -0,0 +1,98 @@
+import type { ModelMessage } from "ai";
+import assert from "node:assert/strict";
+import { compact, InMemoryFileAdapter } from "../src/index";
+
+const calls: Array<{ toolName: string; input: Record<string, unknown> }> = [
+  { toolName: "sandbox_ls", input: { path: "mcp", showHidden: false } },
+  { toolName: "sandbox_cat", input: { file: "mcp/README.md" } },
+  {
+    toolName: "sandbox_grep",
+    input: {
+      pattern: "foo",
+      path: "mcp",
+      recursive: true,
+      caseInsensitive: true,
+    },
+  },
+  { toolName: "sandbox_find", input: { pattern: "*.ts", path: "local-tools" } },
+  { toolName: "searchDocs", input: { q: "billing", limit: 5 } },
+  { toolName: "readFile", input: { path: "notes.md" } },
+];
+
+function makeConversation(): ModelMessage[] {
+  return [
+    { role: "user", content: "Explore the tools" },
+    {
+      role: "assistant",
+      content: calls.map(({ toolName, input }, n) => ({
+        type: "tool-call" as const,
+        toolCallId: `call-${n + 1}`,
+        toolName,
+        input,
+      })),
+    },
+    {
+      role: "tool",
+      content: calls.map(({ toolName }, n) => ({
+        type: "tool-result" as const,
+        toolCallId: `call-${n + 1}`,
+        toolName,
+        output: { type: "text" as const, value: "x".repeat(500) },
+      })),
+    },
+    { role: "assistant", content: "Found them." },
+  ];
+}
+
+async function testRendersRerunHints() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  const result = await compact(makeConversation(), {
+    storage: adapter,
+    boundary: "all",
+    fileReaderTools: ["readFile"],
+    fileReaderHints: {
+      searchDocs: (input) => `searchDocs({ q: ${JSON.stringify(input.q)} })`,
+    },
+  });
+  const values = (result[2] as any).content.map((p: any) => p.output.value);
+
+  assert.deepEqual(values, [
+    'Reference-only result. To read it again, use: sandbox_ls({ path: "mcp" })',
+    'Reference-only result. To read it again, use: sandbox_cat({ file: "mcp/README.md" })',
+    'Reference-only result. To read it again, use: sandbox_grep({ pattern: "foo", path: "mcp", caseInsensitive: true })',
+    'Reference-only result. To read it again, use: sandbox_find({ pattern: "*.ts", path: "local-tools" })',
+    'Reference-only result. To read it again, use: searchDocs({ q: "billing" })',
+    // Reader tools without a hint keep the path-based reference
+    "Read from file: notes.md",
+  ]);
+  assert.equal(
+    (await adapter.list()).length,
+    0,
+    "reader results are never persisted"
+  );
+}
+
+async function testOverridesBuiltInHints() {
+  const result = await compact(makeConversation(), {
+    storage: new InMemoryFileAdapter({ prefix: "mem" }),
+    boundary: "all",
+    fileReaderHints: {
+      sandbox_cat: (input) => `open ${input.file}`,
+    },
+  });
+  assert.equal(
+    (result[2] as any).content[1].output.value,
+    "Reference-only result. To read it again, use: open mcp/README.md"
+  );
+}
+
+(async () => {
+  await testRendersRerunHints();
+  await testOverridesBuiltInHints();
+  // eslint-disable-next-line no-console
+  console.log("Reader hint tests passed");
+})().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,103 @@
+import type { ModelMessage } from "ai";
+import assert from "node:assert/strict";
+import {
+  compact,
+  registerCompactionStrategy,
+  unregisterCompactionStrategy,
+  type CompactionStrategy,
+} from "../src/index";
+
+function makeConversation(): ModelMessage[] {
+  return [
+    { role: "user", content: "Fetch" },
+    {
+      role: "tool",
+      content: [
+        {
+          type: "tool-result",
+          toolCallId: "call-1",
+          toolName: "fetchData",
+          output: { type: "json", value: { data: [1, 2, 3] } },
+        },
+      ],
+    },
+    { role: "assistant", content: "Done" },
+  ];
+}
+
+// Uppercases text outputs inside the window
+const shout: CompactionStrategy = async (messages, { range }) =>
+  messages.map((msg, i) => {
+    if (i < range.start || i >= range.endExclusive || msg.role !== "tool") {
+      return msg;
+    }
+    return {
+      ...msg,
+      content: msg.content.map((part: any) =>
+        part.output?.type === "text"
+          ? {
+              ...part,
+              output: {
+                ...part.output,
+                value: part.output.value.toUpperCase(),
+              },
+            }
+          : part
+      ),
+    };
+  });
+
+async function testRegisteredStrategy() {
+  const seen: any[] = [];
+  registerCompactionStrategy("spy", async (messages, context) => {
+    seen.push(context);
+    return messages;
+  });
+  try {
+    await compact(makeConversation(), {
+      strategy: "spy",
+      boundary: { type: "keep-first", count: 1 },
+    });
+  } finally {
+    unregisterCompactionStrategy("spy");
+  }
+  assert.equal(seen.length, 1);
+  assert.deepEqual(seen[0].range, { start: 1, endExclusive: 2 });
+  assert.equal(typeof seen[0].toolResultSerializer, "function");
+  assert.ok(seen[0].adapter);
+}
+
+async function testPipeline() {
+  registerCompactionStrategy("shout", shout);
+  try {
+    const compacted = await compact(makeConversation(), {
+      strategy: ["drop-tool-results", "shout"],
+    });
+    const part = (compacted[1] as any).content[0];
+    assert.equal(
+      part.output.value,
+      "RESULTS DROPPED FOR TOOL: FETCHDATA TO PRESERVE CONTEXT"
+    );
+  } finally {
+    unregisterCompactionStrategy("shout");
+  }
+}
+
+async function testUnknownStrategy() {
+  await assert.rejects(
+    compact(makeConversation(), { strategy: "does-not-exist" }),
+    /Unknown compaction strategy: does-not-exist/
+  );
+}
+
+(async () => {
+  await testRegisteredStrategy();
+  await testPipeline();
+  await testUnknownStrategy();
+  // eslint-disable-next-line no-console
+  console.log("Registry tests passed");
+})().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,68 @@
+import type { ModelMessage } from "ai";
+import assert from "node:assert/strict";
+import { compactWithReport, InMemoryFileAdapter } from "../src/index";
+
+function result(toolCallId: string, toolName: string, value: unknown) {
+  return {
+    type: "tool-result" as const,
+    toolCallId,
+    toolName,
+    output: { type: "json" as const, value: value as any },
+  };
+}
+
+function makeConversation(): ModelMessage[] {
+  return [
+    { role: "user", content: "Fetch" },
+    {
+      role: "tool",
+      content: [
+        result("call-1", "fetchEmails", { body: "x".repeat(4000) }),
+        result("call-2", "fetchEmails", { body: "y".repeat(2000) }),
+        result("call-3", "getWeather", { temp: 20 }),
+      ],
+    },
+    { role: "assistant", content: "Done" },
+  ];
+}
+
+async function testReport() {
+  const { messages, report } = await compactWithReport(makeConversation(), {
+    storage: new InMemoryFileAdapter({ prefix: "mem" }),
+    minSizeBytes: 100,
+  });
+  assert.equal(report.entries.length, 2);
+  const [first] = report.entries;
+  assert.equal(first.toolName, "fetchEmails");
+  assert.equal(first.toolCallId, "call-1");
+  assert.equal(first.strategy, "write-tool-results-to-file");
+  assert.equal(first.key, "mem/fetchEmails-call-1.json");
+  assert.ok(first.bytesBefore > 4000);
+  assert.ok(first.bytesAfter < first.bytesBefore);
+  assert.ok(first.estimatedTokensSaved > 900);
+
+  assert.equal(report.totals.compactedParts, 2);
+  assert.equal(
+    report.totals.bytesSaved,
+    report.totals.bytesBefore - report.totals.bytesAfter
+  );
+  assert.deepEqual(Object.keys(report.totals.byTool), ["fetchEmails"]);
+
+  // Already-compacted parts are not reported again
+  const second = await compactWithReport(messages, {
+    storage: new InMemoryFileAdapter({ prefix: "mem" }),
+    minSizeBytes: 100,
+  });
+  assert.equal(second.report.entries.length, 0);
+  assert.equal(second.report.totals.bytesSaved, 0);
+}
+
+(async () => {
+  await testReport();
+  // eslint-disable-next-line no-console
+  console.log("Report tests passed");
+})().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,227 @@
+import type { ModelMessage } from "ai";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "node:timers/promises";
+import {
+  applyRetention,
+  compact,
+  InMemoryFileAdapter,
+  listSessions,
+  type FileAdapter,
+} from "../src/index";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Storage with four sessions of 1-2 results each, last active 1, 2, 10 and 30 days ago.
+ */
+async function makeStorage(): Promise<InMemoryFileAdapter> {
+  const storage = new InMemoryFileAdapter({ prefix: "compact" });
+  const results: [string, string, number][] = [
+    ["fresh", "call-1", 1],
+    ["recent", "call-2", 2],
+    ["recent", "call-3", 5],
+    ["stale", "call-4", 10],
+    ["ancient", "call-5", 30],
+  ];
+  for (const [sessionId, toolCallId, daysAgo] of results) {
+    const persisted = {
+      metadata: {
+        toolName: "search",
+        timestamp: new Date(Date.now() - daysAgo * DAY).toISOString(),
+        toolCallId,
+        sessionId,
+      },
+      output: { hits: "x".repeat(100) },
+    };
+    await storage.write({
+      key: storage.resolveKey(`search-${toolCallId}.json`),
+      body: JSON.stringify(persisted),
+      contentType: "application/json",
+    });
+  }
+  // Results without a session are never removed
+  await storage.write({ key: "compact/notes.txt", body: "keep me" });
+  return storage;
+}
+
+async function testMaxAge() {
+  const storage = await makeStorage();
+  const report = await applyRetention({ storage, maxAge: 7 * DAY });
+  assert.deepEqual(
+    report.removed.map(({ sessionId, reason, keys }) => ({
+      sessionId,
+      reason,
+      keys,
+    })),
+    [
+      {
+        sessionId: "stale",
+        reason: "max-age",
+        keys: ["compact/search-call-4.json"],
+      },
+      {
+        sessionId: "ancient",
+        reason: "max-age",
+        keys: ["compact/search-call-5.json"],
+      },
+    ]
+  );
+  assert.deepEqual(report.keptSessions, ["fresh", "recent"]);
+  assert.equal(report.dryRun, false);
+  assert.deepEqual(await listSessions({ storage }), ["fresh", "recent"]);
+  assert.ok(await storage.exists("compact/notes.txt"));
+}
+
+async function testRemovesMediaAndNonJsonOutputs() {
+  const storage = new InMemoryFileAdapter({ prefix: "compact" });
+  const messages: ModelMessage[] = [
+    {
+      role: "user",
+      content: [
+        { type: "text", text: "Search around this screenshot" },
+        { type: "image", image: Buffer.alloc(64, 1).toString("base64") },
+      ],
+    },
+    {
+      role: "assistant",
+      content: [
+        { type: "tool-call", toolCallId: "c1", toolName: "rows", input: {} },
+      ],
+    },
+    {
+      role: "tool",
+      content: [
+        {
+          type: "tool-result",
+          toolCallId: "c1",
+          toolName: "rows",
+          output: { type: "json", value: [{ id: 1 }, { id: 2 }] },
+        },
+      ],
+    },
+    { role: "assistant", content: "Two rows." },
+  ];
+  await compact(messages, {
+    storage,
+    boundary: "all",
+    sessionId: "old",
+    format: "csv",
+    compactMedia: true,
+  });
+  const keys = await storage.list();
+  assert.equal(keys.length, 2);
+  assert.ok(keys.some((key) => key.endsWith(".csv")));
+
+  await sleep(5);
+  const report = await applyRetention({ storage, maxAge: 0 });
+  assert.deepEqual(report.removed[0]?.keys, keys);
+  assert.deepEqual(await storage.list(), []);
+}
+
+async function testMaxSessionsUsesLatestActivity() {
+  const storage = await makeStorage();
+  const report = await applyRetention({ storage, maxSessions: 2 });
+  // "recent" is active 2 days ago through its newest result, call-2
+  assert.deepEqual(report.keptSessions, ["fresh", "recent"]);
+  assert.deepEqual(
+    report.removed.map((session) => [session.sessionId, session.reason]),
+    [
+      ["stale", "max-sessions"],
+      ["ancient", "max-sessions"],
+    ]
+  );
+  assert.equal(
+    report.removed[0].lastActivity?.slice(0, 10),
+    new Date(Date.now() - 10 * DAY).toISOString().slice(0, 10)
+  );
+}
+
+async function testMaxTotalBytesRemovesOldestFirst() {
+  const storage = await makeStorage();
+  const sizes = await Promise.all(
+    (await storage.list()).map(async (key) => (await storage.stat(key))!.size)
+  );
+  const total = sizes.reduce((sum, size) => sum + size, 0);
+  const ancient = (await storage.stat("compact/search-call-5.json"))!.size;
+  const stale = (await storage.stat("compact/search-call-4.json"))!.size;
+
+  // Removing the oldest session alone leaves one byte too many
+  const report = await applyRetention({
+    storage,
+    maxTotalBytes: total - ancient - 1,
+  });
+  assert.deepEqual(
+    report.removed.map((session) => [session.sessionId, session.reason]),
+    [
+      ["stale", "max-total-bytes"],
+      ["ancient", "max-total-bytes"],
+    ]
+  );
+  assert.equal(report.bytesRemoved, ancient + stale);
+}
+
+async function testDryRun() {
+  const storage = await makeStorage();
+  const before = await storage.list();
+  const report = await applyRetention({
+    storage,
+    maxAge: 3 * DAY,
+    maxSessions: 1,
+    dryRun: true,
+  });
+  assert.equal(report.dryRun, true);
+  assert.deepEqual(
+    report.removed.map((session) => [session.sessionId, session.reason]),
+    [
+      ["recent", "max-sessions"],
+      ["stale", "max-age"],
+      ["ancient", "max-age"],
+    ]
+  );
+  assert.ok(report.bytesRemoved > 0);
+  assert.deepEqual(await storage.list(), before, "nothing is deleted");
+}
+
+async function testValidation() {
+  const storage = await makeStorage();
+  await assert.rejects(
+    applyRetention({ storage, maxSessions: -1 }),
+    /maxSessions must be a non-negative number/
+  );
+
+  const listOnly: FileAdapter = {
+    write: async (params) => ({ key: params.key }),
+    list: async () => [],
+    resolveKey: (name) => name,
+    toString: () => "custom://",
+  };
+  await assert.rejects(
+    applyRetention({ storage: listOnly, maxAge: DAY }),
+    /does not support delete operations/
+  );
+  await assert.rejects(
+    applyRetention({ storage: listOnly, maxTotalBytes: 1, dryRun: true }),
+    /does not support stat operations/
+  );
+  const report = await applyRetention({
+    storage: listOnly,
+    maxAge: DAY,
+    dryRun: true,
+  });
+  assert.deepEqual(report.removed, []);
+}
+
+(async () => {
+  await testMaxAge();
+  await testRemovesMediaAndNonJsonOutputs();
+  await testMaxSessionsUsesLatestActivity();
+  await testMaxTotalBytesRemovesOldestFirst();
+  await testDryRun();
+  await testValidation();
+  // eslint-disable-next-line no-console
+  console.log("Retention tests passed");
+})().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,247 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import type { ModelMessage } from "ai";
+import assert from "node:assert/strict";
+import { Readable } from "node:stream";
+import { compact, decompact, grepObject, S3FileAdapter } from "../src/index";
+import { s3UriToOptions } from "../src/sandbox-code-generator/s3-file-adapter";
+import { createFileAdapter } from "../src/tool-results-compactor/lib/resolver";
+
+/**
+ * S3 client pointed at a local MinIO endpoint whose requests are served from memory.
+ */
+function createBucketClient() {
+  const client = new S3Client({
+    region: "us-east-1",
+    endpoint: "http://localhost:9000",
+    forcePathStyle: true,
+    credentials: { accessKeyId: "minio", secretAccessKey: "minio123" },
+  });
+  const objects = new Map<
+    string,
+    { body: Buffer; contentType?: string; metadata?: Record<string, string> }
+  >();
+  (client as any).send = async (command: any) => {
+    const { Bucket, Key } = command.input;
+    const id = `${Bucket}/${Key}`;
+    if (command instanceof PutObjectCommand) {
+      objects.set(id, {
+        body: Buffer.from(command.input.Body as string | Uint8Array),
+        contentType: command.input.ContentType,
+        metadata: command.input.Metadata,
+      });
+      return {};
+    }
+    if (command instanceof GetObjectCommand) {
+      const object = objects.get(id);
+      if (!object) throw new Error(`NoSuchKey: ${id}`);
+      const body: any = Readable.from([object.body]);
+      body.transformToString = async () => object.body.toString("utf8");
+      return { Body: body };
+    }
+    if (command instanceof HeadObjectCommand) {
+      const object = objects.get(id);
+      if (!object)
+        throw Object.assign(new Error("NotFound"), { name: "NotFound" });
+      return {
+        ContentLength: object.body.length,
+        ContentType: object.contentType,
+        LastModified: new Date(0),
+        Metadata: object.metadata ?? {},
+      };
+    }
+    if (command instanceof DeleteObjectCommand) {
+      objects.delete(id);
+      return {};
+    }
+    if (command instanceof ListObjectsV2Command) {
+      // Two keys per page, to exercise pagination
+      const keys = [...objects.keys()]
+        .filter((key) =>
+          key.startsWith(`${Bucket}/${command.input.Prefix ?? ""}`)
+        )
+        .map((key) => key.slice(Bucket.length + 1))
+        .sort();
+      const start = Number(command.input.ContinuationToken ?? 0);
+      const page = keys.slice(start, start + 2);
+      const more = start + 2 < keys.length;
+      return {
+        Contents: page.map((Key) => ({ Key })),
+        IsTruncated: more,
+        NextContinuationToken: more ? String(start + 2) : undefined,
+      };
+    }
+    throw new Error(`Unexpected command: ${command.constructor.name}`);
+  };
+  return { client, objects };
+}
+
+function makeConversation(): ModelMessage[] {
+  return [
+    { role: "user", content: "Find the invoices" },
+    {
+      role: "assistant",
+      content: [
+        {
+          type: "tool-call",
+          toolCallId: "call-1",
+          toolName: "searchInvoices",
+          input: { query: "overdue" },
+        },
+      ],
+    },
+    {
+      role: "tool",
+      content: [
+        {
+          type: "tool-result",
+          toolCallId: "call-1",
+          toolName: "searchInvoices",
+          output: {
+            type: "json",
+            value: [{ id: "inv-1", status: "overdue", amount: 120 }],
+          },
+        },
+      ],
+    },
+    { role: "assistant", content: "One overdue invoice." },
+  ];
+}
+
+async function testWriteAndRead() {
+  const { client, objects } = createBucketClient();
+  const adapter = new S3FileAdapter({
+    bucket: "agents",
+    prefix: "compact/",
+    sessionId: "s1",
+    client,
+  });
+  const key = adapter.resolveKey("notes.txt");
+  assert.equal(key, "compact/s1/tool-results/notes.txt");
+  assert.equal(adapter.toString(), "s3://agents");
+
+  const result = await adapter.write({
+    key,
+    body: "first\nsecond: match\n",
+    contentType: "text/plain",
+  });
+  assert.equal(objects.get(`agents/${key}`)?.contentType, "text/plain");
+
+  // Presigned GET URL on the path-style endpoint
+  const url = new URL(result.url!);
+  assert.equal(url.origin, "http://localhost:9000");
+  assert.equal(url.pathname, `/agents/${key}`);
+  assert.equal(url.searchParams.get("X-Amz-Expires"), "3600");
+  assert.ok(url.searchParams.get("X-Amz-Signature"));
+
+  assert.equal(await adapter.readText({ key }), "first\nsecond: match\n");
+  assert.deepEqual(await grepObject(adapter, key, /match/), [
+    { lineNumber: 2, line: "second: match" },
+  ]);
+  await assert.rejects(adapter.readText({ key: "missing" }), /NoSuchKey/);
+}
+
+async function testListStatDelete() {
+  const { client } = createBucketClient();
+  const adapter = new S3FileAdapter({ bucket: "agents", client });
+  for (const name of ["a.json", "b.json", "c.json", "d.txt"]) {
+    await adapter.write({ key: `s1/tool-results/${name}`, body: name });
+  }
+  await adapter.write({ key: "s2/tool-results/e.json", body: "e" });
+
+  assert.deepEqual(await adapter.list("s1/"), [
+    "s1/tool-results/a.json",
+    "s1/tool-results/b.json",
+    "s1/tool-results/c.json",
+    "s1/tool-results/d.txt",
+  ]);
+  assert.equal((await adapter.list()).length, 5);
+  assert.deepEqual(await adapter.stat("s1/tool-results/d.txt"), {
+    key: "s1/tool-results/d.txt",
+    size: 5,
+    lastModified: new Date(0),
+    contentType: undefined,
+  });
+  assert.equal(await adapter.stat("missing"), undefined);
+
+  // Write metadata is stored as object metadata and read back by stat()
+  const metadata = { sessionId: "run 1/é", toolName: "chart", timestamp: "t" };
+  await adapter.write({ key: "s1/chart.png", body: "png", metadata });
+  assert.deepEqual((await adapter.stat("s1/chart.png"))?.metadata, metadata);
+  assert.equal(await adapter.delete("s2/tool-results/e.json"), true);
+  assert.equal(await adapter.delete("s2/tool-results/e.json"), false);
+  assert.equal(await adapter.exists("s2/tool-results/e.json"), false);
+}
+
+async function testCompactRoundTrip() {
+  const { client, objects } = createBucketClient();
+  const adapter = new S3FileAdapter({
+    bucket: "agents",
+    client,
+    presignExpiresIn: false,
+  });
+  const messages = makeConversation();
+  const compacted = await compact(messages, {
+    storage: adapter,
+    boundary: "all",
+    sessionId: "s",
+  });
+
+  assert.match(
+    (compacted[2] as any).content[0].output.value,
+    /^Written to file: s3:\/\/agents\/searchInvoices-call-1\.json/
+  );
+  assert.equal(
+    objects.get("agents/searchInvoices-call-1.json")?.contentType,
+    "application/json"
+  );
+  assert.equal(
+    (await adapter.write({ key: "x.json", body: "{}" })).url,
+    "s3://agents/x.json"
+  );
+
+  const restored = await decompact(compacted, { storage: adapter });
+  assert.deepEqual(restored, messages);
+}
+
+function testS3Uri() {
+  assert.deepEqual(
+    s3UriToOptions(
+      "s3://agents/compact/prod?endpoint=http://localhost:9000&region=eu-west-1"
+    ),
+    {
+      bucket: "agents",
+      prefix: "compact/prod",
+      endpoint: "http://localhost:9000",
+      region: "eu-west-1",
+    }
+  );
+  assert.deepEqual(s3UriToOptions("s3://agents?forcePathStyle=false"), {
+    bucket: "agents",
+    forcePathStyle: false,
+  });
+  assert.throws(() => s3UriToOptions("s3:///prefix"), /Invalid S3 URI/);
+
+  const adapter = createFileAdapter("s3://agents/compact");
+  assert.ok(adapter instanceof S3FileAdapter);
+  assert.equal(adapter.resolveKey("a.json"), "compact/a.json");
+}
+
+(async () => {
+  await testWriteAndRead();
+  await testListStatDelete();
+  await testCompactRoundTrip();
+  testS3Uri();
+  // eslint-disable-next-line no-console
+  console.log("S3 adapter tests passed");
+})().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,291 @@
+import type { ModelMessage } from "ai";
+import assert from "node:assert/strict";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { Readable } from "node:stream";
+import {
+  compact,
+  InMemoryFileAdapter,
+  listSessions,
+  listSessionToolResults,
+  listStoredToolResults,
+  LocalSandboxProvider,
+  purgeSession,
+  type FileAdapter,
+} from "../src/index";
+import {
+  LocalFileAdapter,
+  SandboxFileAdapter,
+} from "../src/sandbox-code-generator/file-adapter";
+
+function makeConversation(callId: string): ModelMessage[] {
+  return [
+    { role: "user", content: "List the files" },
+    {
+      role: "assistant",
+      content: [
+        {
+          type: "tool-call",
+          toolCallId: callId,
+          toolName: "listFiles",
+          input: {},
+        },
+      ],
+    },
+    {
+      role: "tool",
+      content: [
+        {
+          type: "tool-result",
+          toolCallId: callId,
+          toolName: "listFiles",
+          output: { type: "json", value: { files: ["a.ts", "b.ts"] } },
+        },
+      ],
+    },
+    { role: "assistant", content: "Two files." },
+  ];
+}
+
+/**
+ * Exercise list/stat/exists/delete on an adapter rooted at "compact/".
+ */
+async function checkFileOperations(adapter: FileAdapter) {
+  await adapter.write({ key: "compact/s1/tool-results/a.json", body: "{}" });
+  await adapter.write({ key: "compact/s1/tool-results/b.txt", body: "hello" });
+  await adapter.write({ key: "compact/s10/tool-results/c.json", body: "[]" });
+
+  assert.deepEqual(await adapter.list!("compact/s1/"), [
+    "compact/s1/tool-results/a.json",
+    "compact/s1/tool-results/b.txt",
+  ]);
+  assert.deepEqual(await adapter.list!("compact/s1"), [
+    "compact/s1/tool-results/a.json",
+    "compact/s1/tool-results/b.txt",
+    "compact/s10/tool-results/c.json",
+  ]);
+  assert.deepEqual(await adapter.list!("missing/"), []);
+
+  const stat = await adapter.stat!("compact/s1/tool-results/b.txt");
+  assert.equal(stat?.key, "compact/s1/tool-results/b.txt");
+  assert.equal(stat?.size, 5);
+  assert.ok(stat?.lastModified instanceof Date);
+  assert.equal(await adapter.stat!("compact/s1/tool-results/none"), undefined);
+
+  assert.equal(await adapter.exists!("compact/s1/tool-results/a.json"), true);
+  assert.equal(await adapter.delete!("compact/s1/tool-results/a.json"), true);
+  assert.equal(await adapter.delete!("compact/s1/tool-results/a.json"), false);
+  assert.equal(await adapter.exists!("compact/s1/tool-results/a.json"), false);
+}
+
+async function testLocalFileAdapter(dir: string) {
+  await checkFileOperations(
+    new LocalFileAdapter({ baseDir: path.join(dir, "local") })
+  );
+}
+
+async function testSandboxFileAdapter(dir: string) {
+  const sandboxProvider = await LocalSandboxProvider.create({
+    sandboxDir: path.join(dir, "sandbox"),
+  });
+  await checkFileOperations(new SandboxFileAdapter({ sandboxProvider }));
+}
+
+async function testInMemoryFileAdapter() {
+  await checkFileOperations(new InMemoryFileAdapter());
+}
+
+async function testSessionHelpers() {
+  const storage = new InMemoryFileAdapter({ prefix: "compact" });
+  for (const [sessionId, callId] of [
+    ["alpha", "call-1"],
+    ["alpha", "call-2"],
+    ["beta", "call-3"],
+  ]) {
+    await compact(makeConversation(callId), {
+      storage,
+      boundary: "all",
+      sessionId,
+    });
+  }
+  // A file without metadata, attributed to its session by the key layout
+  await storage.write({
+    key: "compact/beta/tool-results/report.csv",
+    body: "a,b\r\n",
+  });
+  await storage.write({ key: "elsewhere/x.json", body: "{}" });
+
+  assert.deepEqual(await listSessions({ storage }), ["alpha", "beta"]);
+
+  const alpha = await listSessionToolResults("alpha", { storage });
+  assert.deepEqual(
+    alpha.map(({ key, toolName, toolCallId }) => ({
+      key,
+      toolName,
+      toolCallId,
+    })),
+    [
+      {
+        key: "compact/listFiles-call-1.json",
+        toolName: "listFiles",
+        toolCallId: "call-1",
+      },
+      {
+        key: "compact/listFiles-call-2.json",
+        toolName: "listFiles",
+        toolCallId: "call-2",
+      },
+    ]
+  );
+  assert.ok(alpha[0].timestamp);
+  assert.ok((alpha[0].size ?? 0) > 0);
+
+  assert.deepEqual(await purgeSession("beta", { storage }), [
+    "compact/beta/tool-results/report.csv",
+    "compact/listFiles-call-3.json",
+  ]);
+  assert.deepEqual(await listSessions({ storage }), ["alpha"]);
+  assert.equal(
+    (await listStoredToolResults({ storage, prefix: "" })).length,
+    3
+  );
+
+  const writeOnly: FileAdapter = {
+    write: async (params) => ({ key: params.key }),
+    resolveKey: (name) => name,
+    toString: () => "custom://",
+  };
+  await assert.rejects(
+    listSessions({ storage: writeOnly }),
+    /does not support list operations/
+  );
+  await assert.rejects(
+    purgeSession("alpha", { storage: writeOnly }),
+    /does not support delete operations/
+  );
+}
+
+async function testAttributesFilesWithoutEmbeddedMetadata(dir: string) {
+  const png = Buffer.alloc(64, 1);
+  for (const storage of [
+    new InMemoryFileAdapter({ prefix: "compact" }),
+    new LocalFileAdapter({ baseDir: path.join(dir, "metadata") }),
+  ]) {
+    for (const sessionId of ["s1", "s2"]) {
+      const messages: ModelMessage[] = [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "Tabulate this" },
+            { type: "image", image: png.toString("base64") },
+          ],
+        },
+        ...makeConversation(`call-${sessionId}`).slice(1),
+      ];
+      (messages[2] as any).content[0].output.value = [{ file: "a.ts" }];
+      await compact(messages, {
+        storage,
+        boundary: "all",
+        sessionId,
+        format: "csv",
+        compactMedia: true,
+      });
+    }
+
+    const s1 = await listSessionToolResults("s1", { storage });
+    assert.deepEqual(
+      s1.map(({ key, toolName }) => [
+        key.replace(/[0-9a-f]{16}/, "#"),
+        toolName,
+      ]),
+      [
+        ["compact/listFiles-call-s1.csv", "listFiles"],
+        ["compact/user-image-#.bin", "user-image"],
+      ]
+    );
+    assert.equal((await purgeSession("s1", { storage })).length, 2);
+    assert.deepEqual(await listSessions({ storage }), ["s2"]);
+    // Local metadata sidecars are neither listed nor left behind
+    assert.equal((await storage.list("compact/")).length, 2);
+  }
+  // s2's csv and image, each with its sidecar
+  assert.equal(
+    (await readdir(path.join(dir, "metadata", "compact"))).length,
+    4
+  );
+}
+
+async function testReadsOnlyMetadata() {
+  const storage = new InMemoryFileAdapter();
+  const rows = Array.from({ length: 2000 }, (_, n) => ({ n, label: "é" }));
+  for (const [callId, format] of [
+    ["call-1", "json"],
+    ["call-2", "ndjson"],
+  ] as const) {
+    const messages = makeConversation(callId);
+    (messages[2] as any).content[0].output.value = rows;
+    await compact(messages, {
+      storage,
+      boundary: "all",
+      sessionId: "s",
+      format,
+    });
+  }
+
+  // Listing streams the start of each file and stops after the metadata
+  let chunksRead = 0;
+  const reader: FileAdapter = {
+    write: (params) => storage.write(params),
+    list: (prefix) => storage.list(prefix),
+    openReadStream: async (params) => {
+      const body = Buffer.from(await storage.readText(params), "utf8");
+      return Readable.from(
+        (function* () {
+          for (let at = 0; at < body.length; at += 7) {
+            chunksRead++;
+            yield body.subarray(at, at + 7);
+          }
+        })()
+      );
+    },
+    readText: async () => {
+      throw new Error("listing must not read whole files");
+    },
+    resolveKey: (name) => storage.resolveKey(name),
+    toString: () => storage.toString(),
+  };
+  const entries = await listStoredToolResults({ storage: reader });
+  assert.deepEqual(
+    entries.map(({ key, sessionId, toolCallId }) => ({
+      key,
+      sessionId,
+      toolCallId,
+    })),
+    [
+      { key: "listFiles-call-1.json", sessionId: "s", toolCallId: "call-1" },
+      { key: "listFiles-call-2.ndjson", sessionId: "s", toolCallId: "call-2" },
+    ]
+  );
+  assert.ok(chunksRead < 100, `read ${chunksRead} chunks`);
+}
+
+(async () => {
+  const dir = await mkdtemp(path.join(tmpdir(), "ctx-zip-sessions-"));
+  try {
+    await testLocalFileAdapter(dir);
+    await testSandboxFileAdapter(dir);
+    await testInMemoryFileAdapter();
+    await testSessionHelpers();
+    await testAttributesFilesWithoutEmbeddedMetadata(dir);
+    await testReadsOnlyMetadata();
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+  // eslint-disable-next-line no-console
+  console.log("Session storage tests passed");
+})().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exit(1);
+});
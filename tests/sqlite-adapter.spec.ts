@@ -0,0 +1,289 @@
+import type { ModelMessage } from "ai";
+import assert from "node:assert/strict";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  compact,
+  decompact,
+  grepObject,
+  listSessionToolResults,
+  SqliteFileAdapter,
+} from "../src/index";
+import { sqliteUriToOptions } from "../src/sandbox-code-generator/sqlite-file-adapter";
+import { createFileAdapter } from "../src/tool-results-compactor/lib/resolver";
+
+function makeConversation(): ModelMessage[] {
+  return [
+    { role: "user", content: "Check the deployments" },
+    {
+      role: "assistant",
+      content: [
+        {
+          type: "tool-call",
+          toolCallId: "call-1",
+          toolName: "listDeployments",
+          input: {},
+        },
+        {
+          type: "tool-call",
+          toolCallId: "call-2",
+          toolName: "getLogs",
+          input: { deployment: "d-2" },
+        },
+      ],
+    },
+    {
+      role: "tool",
+      content: [
+        {
+          type: "tool-result",
+          toolCallId: "call-1",
+          toolName: "listDeployments",
+          output: {
+            type: "json",
+            value: [
+              { id: "d-1", state: "ready" },
+              { id: "d-2", state: "error" },
+            ],
+          },
+        },
+        {
+          type: "tool-result",
+          toolCallId: "call-2",
+          toolName: "getLogs",
+          output: { type: "text", value: "build ok\nerror: out of memory" },
+        },
+      ],
+    },
+    { role: "assistant", content: "d-2 ran out of memory." },
+  ];
+}
+
+async function testCompactIntoOneFile(dir: string) {
+  const filename = path.join(dir, "db", "results.sqlite");
+  const adapter = new SqliteFileAdapter({ filename, prefix: "compact" });
+  try {
+    const messages = makeConversation();
+    const compacted = await compact(messages, {
+      storage: adapter,
+      boundary: "all",
+      sessionId: "s1",
+      toolFormats: { getLogs: "text" },
+    });
+    assert.match(
+      (compacted[2] as any).content[0].output.value,
+      /^Written to file: sqlite:\/\/.*results\.sqlite:compact\/listDeployments-call-1\.json/
+    );
+
+    const records = await adapter.query({ sessionId: "s1" });
+    assert.deepEqual(
+      records.map(({ key, toolName, toolCallId, contentType }) => ({
+        key,
+        toolName,
+        toolCallId,
+        contentType,
+      })),
+      [
+        {
+          key: "compact/getLogs-call-2.txt",
+          toolName: "getLogs",
+          toolCallId: "call-2",
+          contentType: "text/plain",
+        },
+        {
+          key: "compact/listDeployments-call-1.json",
+          toolName: "listDeployments",
+          toolCallId: "call-1",
+          contentType: "application/json",
+        },
+      ]
+    );
+    assert.ok(records[1].timestamp);
+    assert.equal(
+      records[1].bytes,
+      Buffer.byteLength(await adapter.readText({ key: records[1].key }), "utf8")
+    );
+
+    // Text outputs hold only the output; their metadata comes with the write
+    const [logs] = (await adapter.query()).filter((row) =>
+      row.key.endsWith(".txt")
+    );
+    assert.equal(logs.key, "compact/getLogs-call-2.txt");
+    assert.equal(logs.sessionId, "s1");
+    assert.equal(logs.toolCallId, "call-2");
+    assert.deepEqual(await grepObject(adapter, logs.key, /error/), [
+      { lineNumber: 2, line: "error: out of memory" },
+    ]);
+
+    const restored = await decompact(compacted, { storage: adapter });
+    assert.deepEqual(restored[2], messages[2]);
+
+    // Rewriting a key replaces its row
+    await adapter.write({ key: logs.key, body: "replaced" });
+    assert.equal(await adapter.readText({ key: logs.key }), "replaced");
+    assert.equal((await adapter.query()).length, 2);
+
+    assert.deepEqual(await adapter.list("compact/get"), [logs.key]);
+    assert.equal((await adapter.stat(logs.key))?.size, "replaced".length);
+    assert.equal(await adapter.delete(logs.key), true);
+    assert.equal(await adapter.delete(logs.key), false);
+    assert.equal(await adapter.exists(logs.key), false);
+    assert.equal(await adapter.stat(logs.key), undefined);
+    await assert.rejects(
+      adapter.readText({ key: "missing" }),
+      /File not found in SQLite storage/
+    );
+  } finally {
+    adapter.close();
+  }
+  assert.ok((await readdir(path.dirname(filename))).includes("results.sqlite"));
+}
+
+async function testStreamingAndNdjsonMetadata() {
+  const adapter = new SqliteFileAdapter({ filename: ":memory:" });
+  try {
+    const rows = Array.from({ length: 2000 }, (_, n) => ({ n }));
+    await compact(
+      [
+        { role: "user", content: "Export" },
+        {
+          role: "assistant",
+          content: [
+            {
+              type: "tool-call",
+              toolCallId: "call-9",
+              toolName: "exportRows",
+              input: {},
+            },
+          ],
+        },
+        {
+          role: "tool",
+          content: [
+            {
+              type: "tool-result",
+              toolCallId: "call-9",
+              toolName: "exportRows",
+              output: { type: "json", value: rows },
+            },
+          ],
+        },
+        { role: "assistant", content: "Exported." },
+      ],
+      {
+        storage: adapter,
+        boundary: "all",
+        sessionId: "s2",
+        streaming: "ndjson",
+      }
+    );
+    const [record] = await adapter.query({
+      sessionId: "s2",
+      toolName: "exportRows",
+      toolCallId: "call-9",
+    });
+    assert.equal(record.key, "exportRows-call-9.ndjson");
+    assert.equal(record.contentType, "application/x-ndjson");
+    const text = await adapter.readText({ key: record.key });
+    assert.equal(text.trimEnd().split("\n").length, 2001);
+
+    // Session listings come from the indexed columns, not the stored bodies
+    const [entry] = await listSessionToolResults("s2", { storage: adapter });
+    assert.equal(entry.key, record.key);
+    assert.equal(entry.toolCallId, "call-9");
+    assert.equal(entry.size, record.bytes);
+  } finally {
+    adapter.close();
+  }
+}
+
+async function testChunkedBodies() {
+  const adapter = new SqliteFileAdapter({ filename: ":memory:" });
+  try {
+    const lines = Array.from({ length: 40_000 }, (_, n) =>
+      n === 31_000 ? "needle" : `line ${n} ${"x".repeat(10)}`
+    );
+    const body = lines.join("\n");
+    const stream = await adapter.openWriteStream({
+      key: "big.txt",
+      metadata: { sessionId: "s3", toolName: "dump" },
+    });
+    for (const line of lines) stream.write(`${line}\n`);
+    await new Promise<void>((resolve) => stream.end(resolve));
+
+    const [record] = await adapter.query({ sessionId: "s3" });
+    assert.equal(record.toolName, "dump");
+    assert.equal(record.bytes, Buffer.byteLength(body) + 1);
+
+    // Reads come back a chunk at a time
+    let chunks = 0;
+    for await (const _chunk of await adapter.openReadStream({
+      key: "big.txt",
+    })) {
+      chunks++;
+    }
+    assert.ok(chunks > 1, "large bodies are stored in several chunks");
+    assert.deepEqual(await grepObject(adapter, "big.txt", /needle/), [
+      { lineNumber: 31_001, line: "needle" },
+    ]);
+    assert.equal(await adapter.readText({ key: "big.txt" }), `${body}\n`);
+
+    // An aborted stream leaves the previous file in place
+    const aborted = await adapter.openWriteStream({ key: "big.txt" });
+    const closed = new Promise((resolve) => aborted.on("close", resolve));
+    aborted.on("error", () => {});
+    aborted.write("partial");
+    aborted.destroy(new Error("aborted"));
+    await closed;
+    assert.equal(await adapter.readText({ key: "big.txt" }), `${body}\n`);
+
+    assert.equal(await adapter.delete("big.txt"), true);
+    await assert.rejects(
+      adapter.openReadStream({ key: "big.txt" }),
+      /File not found in SQLite storage/
+    );
+  } finally {
+    adapter.close();
+  }
+}
+
+function testSqliteUri() {
+  assert.deepEqual(
+    sqliteUriToOptions("sqlite:///var/data/ctx.db?table=results"),
+    {
+      filename: "/var/data/ctx.db",
+      table: "results",
+    }
+  );
+  assert.throws(
+    () => sqliteUriToOptions("sqlite://host/ctx.db"),
+    /Invalid SQLite URI/
+  );
+  assert.throws(
+    () => new SqliteFileAdapter({ filename: ":memory:", table: "x; DROP" }),
+    /Invalid SQLite table name/
+  );
+
+  const adapter = createFileAdapter("sqlite:///var/data/ctx.db");
+  assert.ok(adapter instanceof SqliteFileAdapter);
+  assert.equal(adapter.toString(), "sqlite:///var/data/ctx.db");
+}
+
+(async () => {
+  const dir = await mkdtemp(path.join(tmpdir(), "ctx-zip-sqlite-"));
+  try {
+    await testCompactIntoOneFile(dir);
+    await testStreamingAndNdjsonMetadata();
+    await testChunkedBodies();
+    testSqliteUri();
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+  // eslint-disable-next-line no-console
+  console.log("SQLite adapter tests passed");
+})().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exit(1);
+});
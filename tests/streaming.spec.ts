@@ -0,0 +1,255 @@
+import type { ModelMessage } from "ai";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { Writable } from "node:stream";
+import { mock } from "node:test";
+import {
+  compact,
+  decompact,
+  InMemoryFileAdapter,
+  type FileWriteStreamParams,
+} from "../src/index";
+import {
+  serializeJsonChunks,
+  serializeNdjsonChunks,
+} from "../src/tool-results-compactor/lib/json-stream";
+
+// Counts stream chunks and completes them asynchronously, so writers must wait for "drain"
+class StreamingMemoryAdapter extends InMemoryFileAdapter {
+  public streamed: { key: string; contentType?: string; chunks: number }[] = [];
+  constructor() {
+    super({ prefix: "mem" });
+  }
+  async openWriteStream(params: FileWriteStreamParams) {
+    const entry = { ...params, chunks: 0 };
+    this.streamed.push(entry);
+    const target = await super.openWriteStream(params);
+    return new Writable({
+      highWaterMark: 1024,
+      write: (chunk, _encoding, callback) => {
+        entry.chunks++;
+        target.write(chunk);
+        setImmediate(callback);
+      },
+      final: (callback) => {
+        target.end(() => callback());
+      },
+    });
+  }
+}
+
+const rows = Array.from({ length: 5000 }, (_, n) => ({
+  id: n,
+  name: `row ${n}`,
+  tags: ["a", "b"],
+  when: new Date(Date.UTC(2024, 0, 1 + (n % 28))),
+}));
+
+function makeConversation(): ModelMessage[] {
+  return [
+    { role: "user", content: "Export the table" },
+    {
+      role: "assistant",
+      content: [
+        {
+          type: "tool-call",
+          toolCallId: "call-1",
+          toolName: "exportTable",
+          input: {},
+        },
+      ],
+    },
+    {
+      role: "tool",
+      content: [
+        {
+          type: "tool-result",
+          toolCallId: "call-1",
+          toolName: "exportTable",
+          output: { type: "json", value: rows as any },
+        },
+      ],
+    },
+    { role: "assistant", content: "Exported 5000 rows." },
+  ];
+}
+
+function testSerializerMatchesJsonStringify() {
+  const values: unknown[] = [
+    null,
+    42,
+    'text "quoted"\n',
+    [],
+    {},
+    [1, undefined, () => 1, "x"],
+    {
+      a: 1,
+      skip: undefined,
+      nested: { list: [{ b: [] }, {}], d: new Date(0) },
+    },
+    rows.slice(0, 3),
+  ];
+  for (const value of values) {
+    for (const indent of [0, 2]) {
+      assert.equal(
+        [...serializeJsonChunks(value, indent)].join(""),
+        JSON.stringify(value, null, indent)
+      );
+    }
+  }
+  assert.equal(
+    [...serializeNdjsonChunks([{ a: 1 }, [2], "three"])].join(""),
+    '{"a":1}\n[2]\n"three"\n'
+  );
+}
+
+async function testStreamsJsonIncrementally() {
+  const adapter = new StreamingMemoryAdapter();
+  const write = mock.method(adapter, "write");
+  const messages = makeConversation();
+  const result = await compact(messages, {
+    storage: adapter,
+    boundary: "all",
+    sessionId: "s",
+    streaming: true,
+  });
+
+  assert.equal(write.mock.callCount(), 0);
+  assert.equal(adapter.streamed.length, 1);
+  const [{ key, contentType, chunks }] = adapter.streamed;
+  assert.equal(key, "mem/exportTable-call-1.json");
+  assert.equal(contentType, "application/json");
+  assert.ok(chunks > 1, "large arrays are written in several chunks");
+
+  const persisted = JSON.parse(await adapter.readText({ key }));
+  assert.equal(persisted.metadata.toolName, "exportTable");
+  assert.equal(persisted.output.length, 5000);
+  assert.match(
+    (result[2] as any).content[0].output.value,
+    /^Written to file: memory:\/\/\/mem\/exportTable-call-1\.json/
+  );
+
+  const restored = await decompact(result, { storage: adapter });
+  assert.deepEqual(
+    restored[2],
+    JSON.parse(JSON.stringify(messages[2])),
+    "restored output matches the serialized original"
+  );
+}
+
+async function testStreamsNdjson() {
+  const adapter = new StreamingMemoryAdapter();
+  const messages = makeConversation();
+  const result = await compact(messages, {
+    storage: adapter,
+    boundary: "all",
+    sessionId: "s",
+    streaming: "ndjson",
+  });
+
+  const [{ key, contentType }] = adapter.streamed;
+  assert.equal(key, "mem/exportTable-call-1.ndjson");
+  assert.equal(contentType, "application/x-ndjson");
+  const lines = (await adapter.readText({ key })).trimEnd().split("\n");
+  assert.equal(lines.length, 5001);
+  assert.equal(JSON.parse(lines[0]).metadata.format, "ndjson");
+  assert.deepEqual(JSON.parse(lines[1]), JSON.parse(JSON.stringify(rows[0])));
+
+  const restored = await decompact(result, { storage: adapter });
+  assert.deepEqual(restored[2], JSON.parse(JSON.stringify(messages[2])));
+}
+
+async function testFallsBackWithoutWriteStream() {
+  const adapter = new StreamingMemoryAdapter();
+  (adapter as any).openWriteStream = undefined;
+  const write = mock.method(adapter, "write");
+  await compact(makeConversation(), {
+    storage: adapter,
+    boundary: "all",
+    sessionId: "s",
+    streaming: "ndjson",
+  });
+  assert.equal(write.mock.callCount(), 1);
+  const lines = (
+    await adapter.readText({ key: "mem/exportTable-call-1.ndjson" })
+  )
+    .trimEnd()
+    .split("\n");
+  assert.equal(lines.length, 5001);
+}
+
+async function testNeverStringifiesWholeOutput() {
+  const adapter = new StreamingMemoryAdapter();
+  const messages = makeConversation();
+  const stringify = JSON.stringify;
+  let largest = 0;
+  JSON.stringify = function (
+    this: unknown,
+    ...args: Parameters<typeof stringify>
+  ) {
+    const text = stringify.apply(this, args);
+    largest = Math.max(largest, text?.length ?? 0);
+    return text;
+  } as typeof stringify;
+  let result: ModelMessage[];
+  try {
+    result = await compact(messages, {
+      storage: adapter,
+      boundary: "all",
+      sessionId: "s",
+      streaming: true,
+      deduplicate: true,
+      minSizeBytes: 1024,
+      minTokens: 256,
+      preview: true,
+    });
+  } finally {
+    JSON.stringify = stringify;
+  }
+
+  // Thresholds, hashing, preview and size all work on chunks of the 5000-row output
+  assert.ok(largest < 64 * 1024, `stringified ${largest} characters at once`);
+  const part = (result[2] as any).content[0];
+  assert.match(part.output.value, /Preview:\n- Size: \d+ bytes/);
+  const { key, bytes } = part.providerOptions.ctxZip;
+  assert.equal(
+    bytes,
+    Buffer.byteLength(await adapter.readText({ key }), "utf8")
+  );
+}
+
+async function testLocalFileAdapterStream() {
+  const dir = await mkdtemp(path.join(tmpdir(), "ctx-zip-stream-"));
+  try {
+    const result = await compact(makeConversation(), {
+      storage: `file://${dir}`,
+      boundary: "all",
+      sessionId: "s",
+      streaming: true,
+    });
+    const key = (result[2] as any).content[0].providerOptions.ctxZip.key;
+    const body = await readFile(path.join(dir, key), "utf8");
+    const persisted = JSON.parse(body);
+    assert.equal(persisted.output.length, 5000);
+    assert.equal(body, JSON.stringify(persisted, null, 2));
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+(async () => {
+  testSerializerMatchesJsonStringify();
+  await testStreamsJsonIncrementally();
+  await testStreamsNdjson();
+  await testFallsBackWithoutWriteStream();
+  await testNeverStringifiesWholeOutput();
+  await testLocalFileAdapterStream();
+  // eslint-disable-next-line no-console
+  console.log("Streaming tests passed");
+})().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exit(1);
+});
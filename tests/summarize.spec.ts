@@ -0,0 +1,102 @@
+import type { LanguageModel, ModelMessage } from "ai";
+import assert from "node:assert/strict";
+import { compact, InMemoryFileAdapter } from "../src/index";
+
+function makeConversation(): ModelMessage[] {
+  return [
+    { role: "user", content: "Check my inbox" },
+    {
+      role: "assistant",
+      content: [
+        {
+          type: "tool-call",
+          toolCallId: "call-1",
+          toolName: "fetchEmails",
+          input: { limit: 2 },
+        },
+      ],
+    },
+    {
+      role: "tool",
+      content: [
+        {
+          type: "tool-result",
+          toolCallId: "call-1",
+          toolName: "fetchEmails",
+          output: {
+            type: "json",
+            value: { emails: [{ subject: "Budget" }, { subject: "Lunch" }] },
+          },
+        },
+      ],
+    },
+    { role: "assistant", content: "You have 2 emails." },
+  ];
+}
+
+function mockModel(summary: string) {
+  const calls: unknown[] = [];
+  const model = {
+    specificationVersion: "v2",
+    provider: "mock",
+    modelId: "mock-summarizer",
+    supportedUrls: {},
+    async doGenerate(options: unknown) {
+      calls.push(options);
+      return {
+        content: [{ type: "text", text: summary }],
+        finishReason: "stop",
+        usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+        warnings: [],
+      };
+    },
+    async doStream() {
+      throw new Error("Not implemented");
+    },
+  } as unknown as LanguageModel;
+  return { model, calls };
+}
+
+async function testSummaryAndReference() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  const { model, calls } = mockModel("2 emails: Budget, Lunch.");
+  const compacted = await compact(makeConversation(), {
+    strategy: "summarize-tool-results",
+    storage: adapter,
+    summaryModel: model,
+  });
+  const part = (compacted[2] as any).content[0];
+  assert.equal((await adapter.list()).length, 1);
+  assert.match(part.output.value, /^Written to file:/);
+  assert.match(part.output.value, /Summary: 2 emails: Budget, Lunch\./);
+  assert.equal(calls.length, 1);
+
+  // Re-compacting does not summarize again
+  await compact(compacted, {
+    strategy: "summarize-tool-results",
+    storage: adapter,
+    summaryModel: model,
+  });
+  assert.equal(calls.length, 1);
+}
+
+async function testRequiresModel() {
+  await assert.rejects(
+    compact(makeConversation(), {
+      strategy: "summarize-tool-results",
+      storage: new InMemoryFileAdapter({ prefix: "mem" }),
+    }),
+    /summaryModel/
+  );
+}
+
+(async () => {
+  await testSummaryAndReference();
+  await testRequiresModel();
+  // eslint-disable-next-line no-console
+  console.log("Summarize tests passed");
+})().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exit(1);
+});
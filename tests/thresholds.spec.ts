@@ -0,0 +1,95 @@
+import type { ModelMessage } from "ai";
+import assert from "node:assert/strict";
+import { compact, InMemoryFileAdapter } from "../src/index";
+
+function makeConversation(): ModelMessage[] {
+  return [
+    { role: "user", content: "Do things" },
+    {
+      role: "assistant",
+      content: [
+        {
+          type: "tool-call",
+          toolCallId: "call-1",
+          toolName: "ping",
+          input: {},
+        },
+        {
+          type: "tool-call",
+          toolCallId: "call-2",
+          toolName: "fetchData",
+          input: {},
+        },
+      ],
+    },
+    {
+      role: "tool",
+      content: [
+        {
+          type: "tool-result",
+          toolCallId: "call-1",
+          toolName: "ping",
+          output: { type: "json", value: { ok: true } },
+        },
+        {
+          type: "tool-result",
+          toolCallId: "call-2",
+          toolName: "fetchData",
+          output: { type: "json", value: { data: "x".repeat(2000) } },
+        },
+      ],
+    },
+    { role: "assistant", content: "Done" },
+  ];
+}
+
+function outputs(messages: ModelMessage[]) {
+  return (messages[2] as any).content.map((p: any) => p.output);
+}
+
+async function testWriteStrategyKeepsSmallOutputsInline() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  const compacted = await compact(makeConversation(), {
+    storage: adapter,
+    minSizeBytes: 100,
+  });
+  const [ping, fetchData] = outputs(compacted);
+  assert.equal((await adapter.list()).length, 1);
+  assert.deepEqual(ping, { type: "json", value: { ok: true } });
+  assert.match(fetchData.value, /Written to file:/);
+}
+
+async function testDropStrategyHonoursMinTokens() {
+  const compacted = await compact(makeConversation(), {
+    strategy: "drop-tool-results",
+    minTokens: 50,
+  });
+  const [ping, fetchData] = outputs(compacted);
+  assert.equal(ping.type, "json");
+  assert.match(fetchData.value, /Results dropped/);
+}
+
+async function testPerToolOverride() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  const compacted = await compact(makeConversation(), {
+    storage: adapter,
+    minSizeBytes: 100,
+    toolThresholds: { fetchData: { minSizeBytes: 100_000 } },
+  });
+  const [ping, fetchData] = outputs(compacted);
+  assert.equal((await adapter.list()).length, 0);
+  assert.equal(ping.type, "json");
+  assert.equal(fetchData.type, "json");
+}
+
+(async () => {
+  await testWriteStrategyKeepsSmallOutputsInline();
+  await testDropStrategyHonoursMinTokens();
+  await testPerToolOverride();
+  // eslint-disable-next-line no-console
+  console.log("Threshold tests passed");
+})().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exit(1);
+});
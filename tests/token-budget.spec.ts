@@ -0,0 +1,119 @@
+import type { ModelMessage } from "ai";
+import assert from "node:assert/strict";
+import { compact, InMemoryFileAdapter } from "../src/index";
+
+function bigPayload(label: string) {
+  return { label, rows: Array.from({ length: 200 }, (_, i) => `row-${i}`) };
+}
+
+function makeConversation(): ModelMessage[] {
+  const turn = (id: string): ModelMessage[] => [
+    { role: "user", content: `Fetch ${id}` },
+    {
+      role: "assistant",
+      content: [
+        {
+          type: "tool-call",
+          toolCallId: `call-${id}`,
+          toolName: "fetchData",
+          input: { query: id },
+        },
+      ],
+    },
+    {
+      role: "tool",
+      content: [
+        {
+          type: "tool-result",
+          toolCallId: `call-${id}`,
+          toolName: "fetchData",
+          output: { type: "json", value: bigPayload(id) },
+        },
+      ],
+    },
+    { role: "assistant", content: `Fetched ${id}` },
+  ];
+  return [
+    { role: "system", content: "You are helpful." },
+    ...turn("A"),
+    ...turn("B"),
+    ...turn("C"),
+  ];
+}
+
+function outputTypeAt(messages: ModelMessage[], index: number): string {
+  return (messages[index] as any).content[0].output.type;
+}
+
+async function testFitsWithinBudget() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  const messages = makeConversation();
+  const compacted = await compact(messages, {
+    storage: adapter,
+    boundary: { type: "token-budget", maxTokens: 1_000_000 },
+  });
+  assert.equal((await adapter.list()).length, 0);
+  assert.equal(outputTypeAt(compacted, 3), "json");
+}
+
+async function testCompactsOldestFirst() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  const messages = makeConversation();
+  const size = (msgs: ModelMessage[]) => JSON.stringify(msgs).length;
+  const full = size(messages);
+  // Allow room for roughly two of the three large payloads
+  const maxTokens = Math.ceil(full * 0.8);
+  const compacted = await compact(messages, {
+    storage: adapter,
+    boundary: { type: "token-budget", maxTokens, tokenizer: (t) => t.length },
+  });
+  assert.equal((await adapter.list()).length, 1);
+  assert.equal(outputTypeAt(compacted, 3), "text");
+  assert.equal(outputTypeAt(compacted, 7), "json");
+  assert.equal(outputTypeAt(compacted, 11), "json");
+  assert.ok(size(compacted) <= maxTokens);
+}
+
+async function testDropStrategyWithTinyBudget() {
+  const messages = makeConversation();
+  const compacted = await compact(messages, {
+    strategy: "drop-tool-results",
+    boundary: { type: "token-budget", maxTokens: 1 },
+  });
+  for (const index of [3, 7, 11]) {
+    const part = (compacted[index] as any).content[0];
+    assert.match(part.output.value, /Results dropped for tool: fetchData/);
+  }
+}
+
+async function testOneSessionPerCall() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  await compact(makeConversation(), {
+    storage: adapter,
+    boundary: { type: "token-budget", maxTokens: 1 },
+  });
+  // The strategy runs once per tool message, but all runs share the generated session
+  const keys = await adapter.list();
+  assert.equal(keys.length, 3);
+  const sessions = new Set<string>();
+  for (const key of keys) {
+    sessions.add(
+      JSON.parse(await adapter.readText({ key })).metadata.sessionId
+    );
+  }
+  assert.equal(sessions.size, 1);
+  assert.match([...sessions][0], /^session-/);
+}
+
+(async () => {
+  await testFitsWithinBudget();
+  await testCompactsOldestFirst();
+  await testDropStrategyWithTinyBudget();
+  await testOneSessionPerCall();
+  // eslint-disable-next-line no-console
+  console.log("Token budget tests passed");
+})().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exit(1);
+});
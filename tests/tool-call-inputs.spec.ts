@@ -0,0 +1,93 @@
+import type { ModelMessage } from "ai";
+import assert from "node:assert/strict";
+import {
+  compactWithReport,
+  decompact,
+  InMemoryFileAdapter,
+} from "../src/index";
+
+const code = `console.log(${JSON.stringify("x".repeat(3000))});`;
+
+function makeConversation(): ModelMessage[] {
+  return [
+    { role: "user", content: "Run the script" },
+    {
+      role: "assistant",
+      content: [
+        { type: "text", text: "Running it." },
+        {
+          type: "tool-call",
+          toolCallId: "call-1",
+          toolName: "sandbox_exec",
+          input: { code, filename: "script.ts" },
+        },
+        {
+          type: "tool-call",
+          toolCallId: "call-2",
+          toolName: "getWeather",
+          input: { city: "Paris" },
+        },
+      ],
+    },
+    {
+      role: "tool",
+      content: [
+        {
+          type: "tool-result",
+          toolCallId: "call-1",
+          toolName: "sandbox_exec",
+          output: { type: "text", value: "✓ Execution successful" },
+        },
+        {
+          type: "tool-result",
+          toolCallId: "call-2",
+          toolName: "getWeather",
+          output: { type: "json", value: { temp: 20 } },
+        },
+      ],
+    },
+    { role: "assistant", content: "Done" },
+  ];
+}
+
+async function testOffloadsLargeInputs() {
+  const adapter = new InMemoryFileAdapter({ prefix: "mem" });
+  const { messages, report } = await compactWithReport(makeConversation(), {
+    storage: adapter,
+    compactToolCallInputs: true,
+    minSizeBytes: 1000,
+  });
+  const [, execCall, weatherCall] = (messages[1] as any).content;
+  assert.equal(execCall.toolCallId, "call-1");
+  assert.equal(execCall.toolName, "sandbox_exec");
+  assert.match(execCall.input.compactedInput, /^Written to file:/);
+  assert.equal(
+    execCall.providerOptions.ctxZip.key,
+    "mem/sandbox_exec-input-call-1.json"
+  );
+  assert.deepEqual(weatherCall.input, { city: "Paris" });
+
+  assert.equal(report.entries.length, 1);
+  assert.equal(report.entries[0].partType, "tool-call");
+
+  const restored = await decompact(messages, { storage: adapter });
+  assert.deepEqual(restored, makeConversation());
+}
+
+async function testDisabledByDefault() {
+  const { messages } = await compactWithReport(makeConversation(), {
+    storage: new InMemoryFileAdapter({ prefix: "mem" }),
+  });
+  assert.equal((messages[1] as any).content[1].input.code, code);
+}
+
+(async () => {
+  await testOffloadsLargeInputs();
+  await testDisabledByDefault();
+  // eslint-disable-next-line no-console
+  console.log("Tool-call input tests passed");
+})().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exit(1);
+});